@@ -1,24 +1,68 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { ProtoUploader } from './components/ProtoUploader';
 import { FileTreeNavigator } from './components/FileTreeNavigator';
 import { JsonEditor } from './components/JsonEditor';
+import { ProtoTextEditor } from './components/ProtoTextEditor';
+import { EditorLanguageToggle } from './components/EditorLanguageToggle';
 import { OutputPanel } from './components/OutputPanel';
 import { ErrorPanel } from './components/ErrorPanel';
 import { ImportResolver } from './components/ImportResolver';
+import { BreakingChangesPanel } from './components/BreakingChangesPanel';
+import { ProblemsPanel } from './components/ProblemsPanel';
+import { ProtoSourceEditor } from './components/ProtoSourceEditor';
+import { UsagesPanel } from './components/UsagesPanel';
 import { ThemeToggle } from './components/ThemeToggle';
 import { useProtobuf } from './hooks/useProtobuf';
 import { useConversion } from './hooks/useConversion';
 import { generateDefaultMessageJson } from './utils/generateDefaultMessage';
 import { saveMessageState, loadMessageState } from './utils/messageStateStorage';
+import { isMessageListText } from './utils/messageStream';
+import type { ProtoNavigationHandlers } from './utils/protoNavigation';
+import type {
+  CompareInput,
+  ConversionOptions,
+  DecodeResult,
+  EditorLanguage,
+  JsonPath,
+  JsonSchema,
+  OutputFormat,
+  TextLocation,
+} from './types/proto';
 
 const DEFAULT_JSON = `{
 
 }`;
 
+// Compares two JSON texts ignoring formatting
+const isSameJson = (a: string, b: string): boolean => {
+  try {
+    return JSON.stringify(JSON.parse(a)) === JSON.stringify(JSON.parse(b));
+  } catch {
+    return false;
+  }
+};
+
 function App() {
   const [jsonValue, setJsonValue] = useState<string>(DEFAULT_JSON);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [editorLanguage, setEditorLanguage] = useState<EditorLanguage>(
+    () => (localStorage.getItem('editorLanguage') as EditorLanguage | null) || 'json'
+  );
+  // ProtoText editor content; the JSON value follows it whenever it parses
+  const [protoTextValue, setProtoTextValue] = useState<string>('');
+  const [protoTextError, setProtoTextError] = useState<DecodeResult | null>(null);
+  const protoTextRef = useRef('');
+  // JSON path hovered in the editor or the hex view, highlighted in both
+  const [highlightedPath, setHighlightedPath] = useState<JsonPath | null>(null);
   const isInitialMount = useRef(true);
+  // Decoded JSON waiting for a message switch, so saved state doesn't overwrite it
+  const pendingJsonRef = useRef<string | null>(null);
+  // Loaded .proto file open in the source editor instead of the message editor
+  const [sourceFile, setSourceFile] = useState<string | null>(null);
+  // Position to move the source editor's cursor to, set when jumping to a parse error
+  const [sourceLocation, setSourceLocation] = useState<TextLocation | null>(null);
+  // Type picked with "Find Usages", the usages panel follows the selected message otherwise
+  const [usageTarget, setUsageTarget] = useState<string | null>(null);
 
   const {
     root,
@@ -29,6 +73,7 @@ function App() {
     loadedFiles,
     mainFile,
     messageContext,
+    diagnostics,
     loadProtoFile,
     selectMessage,
     validateJson,
@@ -37,9 +82,29 @@ function App() {
     clearProto,
     loadFromLocalStorage,
     removeFile,
+    updateFile,
+    baseline,
+    loadBaselineFiles,
+    snapshotBaseline,
+    clearBaseline,
+    lintProblems,
+    disabledLintRules,
+    toggleLintRule,
+    protoIndex,
   } = useProtobuf();
 
-  const { convert } = useConversion(root, selectedMessage);
+  const {
+    convert,
+    convertStream,
+    decode,
+    decodeStream,
+    decodeGrpc,
+    decodeConfluent,
+    parseText,
+    detectTypes,
+    compare,
+    analyzeSize,
+  } = useConversion(root, selectedMessage, loadedFiles);
 
   // Load saved proto on mount
   useEffect(() => {
@@ -50,6 +115,12 @@ function App() {
   useEffect(() => {
     if (!root || !selectedMessage) return;
 
+    if (pendingJsonRef.current !== null) {
+      setJsonValue(pendingJsonRef.current);
+      pendingJsonRef.current = null;
+      return;
+    }
+
     const loadMessageContent = async () => {
       try {
         // Try to load saved state for this message
@@ -61,6 +132,10 @@ function App() {
 
           if (validation.valid) {
             // Use saved content if valid
+            if (savedState.textprotoContent !== undefined) {
+              protoTextRef.current = savedState.textprotoContent;
+              setProtoTextValue(savedState.textprotoContent);
+            }
             setJsonValue(savedState.jsonContent);
             return;
           } else {
@@ -107,12 +182,28 @@ function App() {
     }
   }, [jsonValue, root, selectedMessage, validateJson]);
 
-  // Save JSON to IndexedDB per message type (with debounce)
+  // Regenerate ProtoText when the JSON changes outside the ProtoText editor (decode, message switch)
+  useEffect(() => {
+    if (editorLanguage !== 'textproto' || !root || !selectedMessage) return;
+
+    const parsed = parseText(protoTextRef.current);
+    if (parsed.json !== undefined && isSameJson(parsed.json, jsonValue)) return;
+
+    const result = convert(jsonValue, 'textproto');
+    if (result.textproto !== undefined) {
+      protoTextRef.current = result.textproto;
+      setProtoTextValue(result.textproto);
+      setProtoTextError(null);
+    }
+  }, [jsonValue, editorLanguage, root, selectedMessage, parseText, convert]);
+
+  // Save JSON (and ProtoText when editing in it) to IndexedDB per message type (with debounce)
   useEffect(() => {
     if (!selectedMessage || !jsonValue) return;
 
     const timeoutId = setTimeout(() => {
-      saveMessageState(selectedMessage, jsonValue).catch((error) => {
+      const textproto = editorLanguage === 'textproto' ? protoTextValue : undefined;
+      saveMessageState(selectedMessage, jsonValue, textproto).catch((error) => {
         console.error('Failed to save message state:', error);
       });
 
@@ -121,23 +212,137 @@ function App() {
     }, 500);
 
     return () => clearTimeout(timeoutId);
-  }, [jsonValue, selectedMessage]);
+  }, [jsonValue, selectedMessage, editorLanguage, protoTextValue]);
+
+  const handleOpenFile = (filePath: string) => {
+    setSourceFile(filePath === sourceFile ? null : filePath);
+    setSourceLocation(null);
+  };
+
+  // Stable, so a re-render doesn't restart the editor's re-parse delay
+  const handleSourceChange = useCallback(
+    (content: string) => {
+      if (sourceFile) updateFile(sourceFile, content);
+    },
+    [sourceFile, updateFile]
+  );
+
+  // Open a loaded file in the source editor at a parse error, a definition or a usage
+  const handleOpenSource = (location: { file: string } & TextLocation) => {
+    setSourceFile(location.file);
+    setSourceLocation({ line: location.line, column: location.column });
+  };
+
+  const protoNavigation: ProtoNavigationHandlers = {
+    definitions: protoIndex.definitions,
+    onGoToDefinition: handleOpenSource,
+    onFindUsages: setUsageTarget,
+  };
 
   const handleFileSelect = async (file: File) => {
     await loadProtoFile(file);
   };
 
-  const handleConvert = (format: any) => {
-    return convert(jsonValue, format);
+  const handleConvert = (format: any, options?: ConversionOptions) => {
+    return convert(jsonValue, format, options);
+  };
+
+  // Load decoded payloads straight into the JSON editor
+  const handleDecode = (buffer: Uint8Array, messageName?: string) => {
+    const result = decode(buffer, messageName ?? selectedMessage);
+    if (result.json) {
+      if (messageName && messageName !== selectedMessage) {
+        pendingJsonRef.current = result.json;
+        selectMessage(messageName);
+      } else {
+        setJsonValue(result.json);
+      }
+    }
+    return result;
   };
 
+  const handleParseProtoText = (text: string) => {
+    const result = parseText(text);
+    if (result.json) {
+      setJsonValue(result.json);
+    }
+    return result;
+  };
+
+  const handleConvertStream = (format: OutputFormat, options?: ConversionOptions) => {
+    return convertStream(jsonValue, format, options);
+  };
+
+  const handleDecodeStream = (buffer: Uint8Array) => {
+    return decodeStream(buffer);
+  };
+
+  const handleDecodeGrpc = (buffer: Uint8Array) => {
+    return decodeGrpc(buffer);
+  };
+
+  // The record's message indexes may point to another message of the same file
+  const handleDecodeConfluent = (buffer: Uint8Array) => {
+    const result = decodeConfluent(buffer);
+    if (result.json) {
+      if (result.messageName && result.messageName !== selectedMessage) {
+        pendingJsonRef.current = result.json;
+        selectMessage(result.messageName);
+      } else {
+        setJsonValue(result.json);
+      }
+    }
+    return result;
+  };
+
+  // Load one or all messages of a decoded stream into the editor
+  const handleLoadJson = (json: string) => {
+    // ProtoText holds a single message, lists are edited as JSON
+    if (editorLanguage === 'textproto' && isMessageListText(json)) {
+      handleEditorLanguageChange('json');
+    }
+    setJsonValue(json);
+  };
+
+  const handleDetectTypes = (buffer: Uint8Array) => {
+    return detectTypes(buffer, availableMessages);
+  };
+
+  const handleCompare = (before: CompareInput, after: CompareInput) => {
+    return compare(before, after, jsonValue);
+  };
+
+  const handleAnalyzeSize = () => {
+    return analyzeSize(jsonValue);
+  };
+
+  // Edits in ProtoText update the JSON as soon as they parse
+  const handleProtoTextChange = (text: string) => {
+    protoTextRef.current = text;
+    setProtoTextValue(text);
+    const result = parseText(text);
+    setProtoTextError(result.error ? result : null);
+    if (result.json !== undefined) {
+      setJsonValue(result.json);
+    }
+  };
+
+  const handleEditorLanguageChange = (language: EditorLanguage) => {
+    setEditorLanguage(language);
+    setProtoTextError(null);
+    localStorage.setItem('editorLanguage', language);
+  };
+
+  // A ProtoText syntax error takes precedence, the JSON still holds the last valid content
+  const editorError = editorLanguage === 'textproto' ? protoTextError?.error ?? validationError : validationError;
+
   // Global keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       // Cmd+Enter to trigger conversion
       if ((event.metaKey || event.ctrlKey) && event.key === 'Enter') {
         event.preventDefault();
-        if (root && selectedMessage && !validationError) {
+        if (root && selectedMessage && !editorError) {
           window.dispatchEvent(new CustomEvent('triggerConversion'));
         }
       }
@@ -159,14 +364,43 @@ function App() {
         event.preventDefault();
         window.dispatchEvent(new CustomEvent('setFormat', { detail: 'textproto' }));
       }
+
+      // Alt+4 for Proto3 JSON format
+      if (event.altKey && (event.key === '4' || event.code === 'Digit4')) {
+        event.preventDefault();
+        window.dispatchEvent(new CustomEvent('setFormat', { detail: 'proto3json' }));
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [root, selectedMessage, validationError]);
-
-  const jsonSchema = generateJsonSchema();
+  }, [root, selectedMessage, editorError]);
+
+  const isMessageList = editorLanguage === 'json' && isMessageListText(jsonValue);
+  const messageSchema = generateJsonSchema();
+  // A JSON array of messages is a length-delimited stream
+  const jsonSchema: JsonSchema | null =
+    messageSchema && isMessageList
+      ? { type: 'array', items: { ...messageSchema, definitions: undefined }, definitions: messageSchema.definitions }
+      : messageSchema;
   const messageDefinition = getMessageDefinition();
+  const messageType = root && selectedMessage ? root.lookupType(selectedMessage) : null;
+
+  const languageToggle = (
+    <EditorLanguageToggle
+      value={editorLanguage}
+      onChange={handleEditorLanguageChange}
+      disabledReason={
+        editorError
+          ? editorLanguage === 'json'
+            ? 'Fix the JSON errors before switching to ProtoText'
+            : 'Fix the ProtoText errors before switching to JSON'
+          : isMessageList
+            ? 'ProtoText holds a single message, a list of messages can only be edited as JSON'
+            : null
+      }
+    />
+  );
 
   return (
     <div className="h-screen bg-gray-50 dark:bg-neutral-950 flex flex-col">
@@ -176,7 +410,7 @@ function App() {
           <div className="flex-shrink-0">
             <ProtoUploader onFileSelect={handleFileSelect} hasFile={!!root} />
 
-            {protoError && <ErrorPanel error={protoError} />}
+            <ErrorPanel error={protoError} diagnostics={diagnostics} onSelectDiagnostic={handleOpenSource} />
           </div>
 
           {root && (
@@ -188,6 +422,48 @@ function App() {
                 mainFile={mainFile}
                 onSelectMessage={selectMessage}
                 onRemoveFile={removeFile}
+                lintProblems={lintProblems}
+                openFile={sourceFile}
+                onOpenFile={handleOpenFile}
+                diagnostics={diagnostics}
+                onSelectDiagnostic={handleOpenSource}
+              />
+            </div>
+          )}
+
+          {root && (
+            <div className="p-3 border-t border-gray-200 dark:border-neutral-700 flex-shrink-0">
+              <BreakingChangesPanel
+                root={root}
+                loadedFiles={loadedFiles}
+                baseline={baseline}
+                onLoadBaseline={loadBaselineFiles}
+                onSnapshotBaseline={snapshotBaseline}
+                onClearBaseline={clearBaseline}
+              />
+            </div>
+          )}
+
+          {root && (
+            <div className="p-3 border-t border-gray-200 dark:border-neutral-700 flex-shrink-0">
+              <ProblemsPanel
+                problems={lintProblems}
+                disabledRules={disabledLintRules}
+                onToggleRule={toggleLintRule}
+                messageNames={availableMessages}
+                onSelectMessage={selectMessage}
+              />
+            </div>
+          )}
+
+          {root && (
+            <div className="p-3 border-t border-gray-200 dark:border-neutral-700 flex-shrink-0">
+              <UsagesPanel
+                index={protoIndex}
+                selectedMessage={selectedMessage}
+                target={usageTarget}
+                onTargetChange={setUsageTarget}
+                onOpenLocation={handleOpenSource}
               />
             </div>
           )}
@@ -206,29 +482,46 @@ function App() {
         </aside>
 
         {/* Center Editor Area */}
-        <div className="flex-1 flex flex-col overflow-hidden z-index-{999}">
-          {root && selectedMessage ? (
-            <div className="flex-1 flex overflow-hidden">
-              {/* JSON Editor */}
-              <div className="flex-1 bg-white dark:bg-neutral-900 border-r border-gray-200 dark:border-neutral-700 flex flex-col min-w-0">
+        <div className="flex-1 flex overflow-hidden z-index-{999}">
+          {sourceFile && loadedFiles.has(sourceFile) ? (
+            /* .proto source of a loaded file */
+            <div className="flex-1 bg-white dark:bg-neutral-900 border-r border-gray-200 dark:border-neutral-700 flex flex-col min-w-0">
+              <ProtoSourceEditor
+                key={sourceFile}
+                filePath={sourceFile}
+                value={loadedFiles.get(sourceFile)!}
+                onChange={handleSourceChange}
+                onClose={() => setSourceFile(null)}
+                revealLocation={sourceLocation}
+                diagnostic={diagnostics.find((diagnostic) => diagnostic.file === sourceFile)}
+                navigation={protoNavigation}
+              />
+            </div>
+          ) : root && selectedMessage ? (
+            /* JSON or ProtoText Editor */
+            <div className="flex-1 bg-white dark:bg-neutral-900 border-r border-gray-200 dark:border-neutral-700 flex flex-col min-w-0">
+              {editorLanguage === 'textproto' ? (
+                <ProtoTextEditor
+                  value={protoTextValue}
+                  onChange={handleProtoTextChange}
+                  messageType={messageType}
+                  error={editorError}
+                  errorLocation={protoTextError?.errorLocation}
+                  messageContext={messageContext}
+                  headerActions={languageToggle}
+                />
+              ) : (
                 <JsonEditor
                   value={jsonValue}
                   onChange={setJsonValue}
                   schema={jsonSchema}
                   error={validationError}
                   messageContext={messageContext}
+                  highlightedPath={highlightedPath}
+                  onHoverPath={setHighlightedPath}
+                  headerActions={languageToggle}
                 />
-              </div>
-
-              {/* Right Panel: Output */}
-              <div className="w-[420px] bg-white dark:bg-neutral-900 flex flex-col border-l border-gray-200 dark:border-neutral-700">
-                <OutputPanel
-                  onConvert={handleConvert}
-                  disabled={!root || !selectedMessage || !!validationError}
-                  messageDefinition={messageDefinition}
-                  messageName={selectedMessage}
-                />
-              </div>
+              )}
             </div>
           ) : (
             <div className="flex-1 flex items-center justify-center p-8">
@@ -263,6 +556,29 @@ function App() {
               ) : null}
             </div>
           )}
+
+          {/* Right Panel: Output (raw decoding works even without a schema) */}
+          <div className="w-[420px] bg-white dark:bg-neutral-900 flex flex-col border-l border-gray-200 dark:border-neutral-700">
+            <OutputPanel
+              onConvert={handleConvert}
+              onConvertStream={handleConvertStream}
+              onDecode={handleDecode}
+              onDecodeStream={handleDecodeStream}
+              onDecodeGrpc={handleDecodeGrpc}
+              onDecodeConfluent={handleDecodeConfluent}
+              onLoadJson={handleLoadJson}
+              onParseProtoText={handleParseProtoText}
+              onDetectTypes={root ? handleDetectTypes : undefined}
+              onCompare={handleCompare}
+              onAnalyzeSize={handleAnalyzeSize}
+              disabled={!root || !selectedMessage || !!editorError}
+              messageDefinition={messageDefinition}
+              messageName={selectedMessage}
+              schemaNavigation={protoNavigation}
+              highlightedPath={highlightedPath}
+              onHoverPath={setHighlightedPath}
+            />
+          </div>
         </div>
       </main>
 
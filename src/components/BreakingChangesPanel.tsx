@@ -0,0 +1,147 @@
+import { useMemo, useRef, useState } from 'react';
+import { ChevronDown, FileUp, GitBranch, X } from 'lucide-react';
+import type { Root } from 'protobufjs';
+import type { BreakingChange, ProtoBaseline } from '../types/proto';
+import { detectBreakingChanges } from '../utils/breakingChanges';
+
+interface BreakingChangesPanelProps {
+  root: Root;
+  loadedFiles: Map<string, string>;
+  baseline: ProtoBaseline | null;
+  onLoadBaseline: (files: File[]) => Promise<void>;
+  onSnapshotBaseline: () => Promise<void>;
+  onClearBaseline: () => void;
+}
+
+const categoryStyles: Record<BreakingChange['category'], string> = {
+  wire: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-400',
+  json: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-400',
+};
+
+export const BreakingChangesPanel = ({
+  root,
+  loadedFiles,
+  baseline,
+  onLoadBaseline,
+  onSnapshotBaseline,
+  onClearBaseline,
+}: BreakingChangesPanelProps) => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The loaded files are the "after" version
+  const report = useMemo((): { changes?: BreakingChange[]; error?: string } | null => {
+    if (!baseline) return null;
+    try {
+      return { changes: detectBreakingChanges(baseline.root, root, { before: baseline.loadedFiles, after: loadedFiles }) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to compare the schemas' };
+    }
+  }, [baseline, root, loadedFiles]);
+
+  const runBaselineAction = async (action: () => Promise<void>) => {
+    try {
+      setLoadError(null);
+      await action();
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load the baseline');
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter((file) => file.name.endsWith('.proto'));
+    e.target.value = '';
+    if (files.length > 0) {
+      runBaselineAction(() => onLoadBaseline(files));
+    }
+  };
+
+  const wireCount = report?.changes?.filter((change) => change.category === 'wire').length ?? 0;
+  const jsonCount = (report?.changes?.length ?? 0) - wireCount;
+
+  const buttonClass =
+    'flex items-center gap-1 px-2 py-1 text-xs font-medium bg-white dark:bg-neutral-800 border border-gray-300 dark:border-neutral-600 text-gray-700 dark:text-neutral-300 rounded hover:bg-gray-50 dark:hover:bg-neutral-700 transition-colors';
+
+  return (
+    <div className="border border-gray-300 dark:border-neutral-600 rounded-lg p-2">
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="flex items-center gap-1.5 w-full text-left hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors rounded px-1 py-0.5 -mx-1 -my-0.5"
+        title={isCollapsed ? 'Expand' : 'Collapse'}
+      >
+        <GitBranch size={14} className="text-gray-500 dark:text-neutral-400 flex-shrink-0" />
+        <h3 className="flex-1 text-xs font-semibold text-gray-700 dark:text-neutral-300">Breaking changes</h3>
+        {report?.changes && (
+          <span
+            className={`text-[11px] font-semibold ${
+              wireCount > 0
+                ? 'text-red-600 dark:text-red-400'
+                : jsonCount > 0
+                  ? 'text-amber-600 dark:text-amber-400'
+                  : 'text-green-600 dark:text-green-400'
+            }`}
+          >
+            {report.changes.length === 0 ? 'none' : `${wireCount} wire · ${jsonCount} JSON`}
+          </span>
+        )}
+        <ChevronDown
+          size={14}
+          className={`text-gray-600 dark:text-neutral-400 transition-transform ${isCollapsed ? '' : 'rotate-180'}`}
+        />
+      </button>
+
+      {!isCollapsed && (
+        <div className="mt-2 space-y-2">
+          <p className="text-[11px] text-gray-500 dark:text-neutral-400">
+            {baseline
+              ? `Baseline: ${baseline.loadedFiles.size} ${baseline.loadedFiles.size === 1 ? 'file' : 'files'}, compared with the loaded files`
+              : 'Load the previous version of the .proto files, or keep the loaded files as the baseline before changing them'}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Pick the .proto files of the previous version">
+              <FileUp size={12} />
+              {baseline ? 'Replace' : 'Load baseline'}
+            </button>
+            <button onClick={() => runBaselineAction(onSnapshotBaseline)} className={buttonClass} title="Use the loaded files as the baseline">
+              Use current
+            </button>
+            {baseline && (
+              <button onClick={onClearBaseline} className={buttonClass} title="Remove the baseline">
+                <X size={12} />
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept=".proto" multiple onChange={handleFileChange} className="hidden" />
+          </div>
+
+          {(loadError || report?.error) && (
+            <p className="text-[11px] text-red-600 dark:text-red-400 break-all">{loadError || report?.error}</p>
+          )}
+
+          {report?.changes && report.changes.length === 0 && (
+            <p className="text-[11px] text-green-700 dark:text-green-400">No wire- or JSON-breaking changes</p>
+          )}
+
+          {report?.changes && report.changes.length > 0 && (
+            <div className="max-h-64 overflow-auto divide-y divide-gray-200 dark:divide-neutral-700 border border-gray-200 dark:border-neutral-700 rounded">
+              {report.changes.map((change, index) => (
+                <div key={index} className="px-2 py-1.5">
+                  <div className="flex items-center gap-1.5">
+                    <span className={`px-1 rounded text-[10px] font-semibold uppercase ${categoryStyles[change.category]}`}>
+                      {change.category}
+                    </span>
+                    <code className="text-[11px] font-mono text-gray-800 dark:text-neutral-200 truncate" title={change.location}>
+                      {change.location}
+                    </code>
+                  </div>
+                  <div className="text-[11px] text-gray-600 dark:text-neutral-400">{change.message}</div>
+                  <div className="text-[10px] font-mono text-gray-400 dark:text-neutral-500">{change.rule}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
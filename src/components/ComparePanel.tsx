@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeftRight, GitCompare } from 'lucide-react';
+import type { CompareInput, CompareResult, FieldChange } from '../types/proto';
+import { base64ChunksToUint8Array, hexToUint8Array } from '../utils/binaryEncoding';
+import { decompressPayload } from '../utils/compression';
+import { getAllMessageStates, type MessageEditorState } from '../utils/messageStateStorage';
+
+// 'base64' | 'hex' | 'editor' | 'saved:<message name>'
+type CompareSource = string;
+
+interface CompareSide {
+  source: CompareSource;
+  text: string;
+}
+
+interface ComparePanelProps {
+  onCompare: (before: CompareInput, after: CompareInput) => CompareResult;
+  disabled?: boolean;
+  messageName?: string | null;
+}
+
+const SAVED_PREFIX = 'saved:';
+
+const changeStyles: Record<FieldChange['kind'], { symbol: string; className: string }> = {
+  added: { symbol: '+', className: 'text-green-700 dark:text-green-400' },
+  removed: { symbol: '−', className: 'text-red-700 dark:text-red-400' },
+  changed: { symbol: '~', className: 'text-amber-700 dark:text-amber-400' },
+};
+
+// Helper function to show a decoded value on one line
+const previewValue = (value: unknown): string => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const formatPath = (change: FieldChange): string =>
+  change.path.map((key, index) => (typeof key === 'number' ? `[${key}]` : index === 0 ? key : `.${key}`)).join('') ||
+  '(message)';
+
+export const ComparePanel = ({ onCompare, disabled, messageName }: ComparePanelProps) => {
+  const [sides, setSides] = useState<[CompareSide, CompareSide]>([
+    { source: 'base64', text: '' },
+    { source: 'base64', text: '' },
+  ]);
+  const [savedStates, setSavedStates] = useState<MessageEditorState[]>([]);
+  const [result, setResult] = useState<CompareResult | null>(null);
+
+  // Saved editor states are listed as sources, newest first
+  useEffect(() => {
+    let cancelled = false;
+    getAllMessageStates().then((states) => {
+      if (!cancelled) {
+        setSavedStates([...states].sort((a, b) => b.lastEditedAt - a.lastEditedAt));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [messageName]);
+
+  useEffect(() => {
+    setResult(null);
+  }, [messageName]);
+
+  const updateSide = (index: 0 | 1, update: Partial<CompareSide>) => {
+    setSides((current) => {
+      const next: [CompareSide, CompareSide] = [current[0], current[1]];
+      next[index] = { ...current[index], ...update };
+      return next;
+    });
+    setResult(null);
+  };
+
+  const readSide = async (side: CompareSide): Promise<CompareInput> => {
+    if (side.source === 'editor') {
+      return { kind: 'editor' };
+    }
+    if (side.source.startsWith(SAVED_PREFIX)) {
+      const name = side.source.slice(SAVED_PREFIX.length);
+      const state = savedStates.find((saved) => saved.key === name);
+      if (!state) {
+        throw new Error(`No saved state for ${name}`);
+      }
+      return { kind: 'saved', json: state.jsonContent, messageName: name };
+    }
+    const bytes = side.source === 'hex' ? hexToUint8Array(side.text) : base64ChunksToUint8Array(side.text);
+    return { kind: 'payload', buffer: (await decompressPayload(bytes)).buffer };
+  };
+
+  const handleCompare = async () => {
+    try {
+      const [before, after] = await Promise.all(sides.map(readSide));
+      setResult(onCompare(before, after));
+    } catch (error) {
+      setResult({ error: error instanceof Error ? error.message : 'Invalid input' });
+    }
+  };
+
+  const handleSwap = () => {
+    setSides(([before, after]) => [after, before]);
+    setResult(null);
+  };
+
+  const renderSide = (index: 0 | 1, label: string) => {
+    const side = sides[index];
+    const isPayload = side.source === 'base64' || side.source === 'hex';
+    return (
+      <div className="flex-1 flex flex-col min-h-0">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300">{label}</label>
+          <select
+            value={side.source}
+            onChange={(e) => updateSide(index, { source: e.target.value })}
+            aria-label={`${label} source`}
+            className="min-w-0 px-2 py-1 text-xs font-medium rounded border border-gray-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-gray-700 dark:text-neutral-300 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 cursor-pointer"
+          >
+            <option value="base64">Base64 payload</option>
+            <option value="hex">Hex payload</option>
+            <option value="editor">Editor JSON</option>
+            {savedStates.length > 0 && (
+              <optgroup label="Saved message states">
+                {savedStates.map((state) => (
+                  <option key={state.key} value={`${SAVED_PREFIX}${state.key}`}>
+                    {state.key}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        {isPayload ? (
+          <textarea
+            value={side.text}
+            onChange={(e) => updateSide(index, { text: e.target.value })}
+            placeholder={side.source === 'hex' ? 'Paste hex bytes, e.g. 0a 03 66 6f 6f' : 'Paste a Base64 payload'}
+            spellCheck={false}
+            className="flex-1 min-h-[4rem] p-3 font-mono text-sm resize-none bg-gray-50 dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded text-gray-800 dark:text-neutral-200 placeholder-gray-400 dark:placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600"
+          />
+        ) : (
+          <p className="px-3 py-2 text-xs text-gray-500 dark:text-neutral-400 bg-gray-50 dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded">
+            {side.source === 'editor'
+              ? 'The message in the JSON editor'
+              : `The last saved ${side.source.slice(SAVED_PREFIX.length)} message, read as ${messageName ?? 'the selected type'}`}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 flex flex-col min-h-0 p-4 gap-3 border-b border-gray-200 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-800">
+        {renderSide(0, 'Before')}
+        {renderSide(1, 'After')}
+        <div className="flex gap-2">
+          <button
+            onClick={handleCompare}
+            disabled={disabled}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-500 dark:bg-blue-500/80 text-white rounded-lg hover:bg-blue-600 dark:hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-all font-medium text-sm"
+          >
+            <GitCompare size={16} />
+            Compare
+          </button>
+          <button
+            onClick={handleSwap}
+            className="flex items-center justify-center gap-1.5 px-4 py-2.5 bg-white dark:bg-neutral-800 border border-gray-300 dark:border-neutral-600 text-gray-700 dark:text-neutral-300 rounded-lg hover:bg-gray-50 dark:hover:bg-neutral-700 transition-all text-sm font-medium"
+            title="Swap Before and After"
+          >
+            <ArrowLeftRight size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col min-h-0 p-3">
+        <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+          Differences
+          {result?.changes && (
+            <span className="ml-2 text-xs font-normal text-gray-500 dark:text-neutral-400">
+              {result.changes.length} {result.changes.length === 1 ? 'field' : 'fields'}
+              {result.byteLengths && ` · ${result.byteLengths[0]} → ${result.byteLengths[1]} bytes`}
+            </span>
+          )}
+        </label>
+        {result?.error ? (
+          <div className="border rounded p-3 font-mono text-sm bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
+            <pre className="whitespace-pre-wrap break-all text-red-700 dark:text-red-400">Error: {result.error}</pre>
+          </div>
+        ) : result?.changes && result.changes.length === 0 ? (
+          <div className="border rounded px-3 py-2 text-xs bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400">
+            Both sides decode to the same message
+          </div>
+        ) : result?.changes ? (
+          <div className="flex-1 overflow-auto border border-gray-200 dark:border-neutral-700 rounded divide-y divide-gray-200 dark:divide-neutral-700">
+            {result.changes.map((change, index) => (
+              <div key={index} className="px-3 py-1.5 font-mono text-xs">
+                <div className="flex items-center gap-2">
+                  <span className={`font-semibold ${changeStyles[change.kind].className}`}>
+                    {changeStyles[change.kind].symbol}
+                  </span>
+                  <span className="text-gray-800 dark:text-neutral-200 break-all">{formatPath(change)}</span>
+                </div>
+                <div className="pl-4 text-gray-500 dark:text-neutral-400 break-all">
+                  {change.kind === 'added'
+                    ? previewValue(change.after)
+                    : change.kind === 'removed'
+                      ? previewValue(change.before)
+                      : `${previewValue(change.before)} → ${previewValue(change.after)}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-400 dark:text-neutral-500 italic text-center pt-8 text-sm">
+            Pick two payloads or saved states and click "Compare"
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,644 @@
+import { useState, useRef, useEffect } from 'react';
+import { FileUp, Play, ScanSearch } from 'lucide-react';
+import Editor, { type Monaco } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import type {
+  CompressionFormat,
+  ConfluentDecodeResult,
+  DecodeResult,
+  InputFormat,
+  StreamDecodeResult,
+  StreamMessage,
+  TypeCandidate,
+} from '../types/proto';
+import { base64ChunksToUint8Array, hexToUint8Array } from '../utils/binaryEncoding';
+import { isGrpcFramed } from '../utils/grpcFraming';
+import { decompressPayload } from '../utils/compression';
+import { decodeRawFields, formatRawFields } from '../utils/wireFormat';
+import { registerPrototextLanguage } from '../utils/prototextLanguage';
+import { registerCustomTheme } from '../utils/monacoTheme';
+import { useTheme } from '../contexts/ThemeContext';
+
+type DecodeTarget = 'message' | 'stream' | 'grpc' | 'confluent' | 'raw';
+
+interface DecodePanelProps {
+  onDecode: (buffer: Uint8Array, messageName?: string) => DecodeResult;
+  onDecodeStream?: (buffer: Uint8Array) => StreamDecodeResult;
+  onDecodeGrpc?: (buffer: Uint8Array) => StreamDecodeResult;
+  onDecodeConfluent?: (buffer: Uint8Array) => ConfluentDecodeResult;
+  onLoadJson?: (json: string) => void;
+  onParseProtoText: (text: string) => DecodeResult;
+  onDetectTypes?: (buffer: Uint8Array) => TypeCandidate[];
+  disabled?: boolean;
+  messageName?: string | null;
+  droppedFile?: File | null;
+}
+
+export const DecodePanel = ({
+  onDecode,
+  onDecodeStream,
+  onDecodeGrpc,
+  onDecodeConfluent,
+  onLoadJson,
+  onParseProtoText,
+  onDetectTypes,
+  disabled,
+  messageName,
+  droppedFile,
+}: DecodePanelProps) => {
+  const { theme } = useTheme();
+  const [inputFormat, setInputFormat] = useState<InputFormat>('base64');
+  const [inputText, setInputText] = useState('');
+  // Bytes of an uploaded file, used instead of the text input until it changes
+  const [fileInput, setFileInput] = useState<{ name: string; buffer: Uint8Array } | null>(null);
+  // Compression detected on the last decoded input
+  const [inputCompression, setInputCompression] = useState<{
+    format: CompressionFormat;
+    compressedLength: number;
+    length: number;
+  } | null>(null);
+  const [target, setTarget] = useState<DecodeTarget>(disabled ? 'raw' : 'message');
+  const [result, setResult] = useState<DecodeResult | ConfluentDecodeResult | null>(null);
+  const [rawOutput, setRawOutput] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<TypeCandidate[] | null>(null);
+  const [streamResult, setStreamResult] = useState<StreamDecodeResult | null>(null);
+  const [streamKind, setStreamKind] = useState<'stream' | 'grpc'>('stream');
+  // Index of the stream message shown in the editor
+  const [loadedIndex, setLoadedIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+
+  const isTextProto = inputFormat === 'textproto';
+  // ProtoText field names only make sense against a message type
+  const needsMessage = target !== 'raw' || isTextProto;
+
+  const formats: { value: InputFormat; label: string }[] = [
+    { value: 'base64', label: 'Base64' },
+    { value: 'hex', label: 'Hex' },
+    { value: 'textproto', label: 'ProtoText' },
+  ];
+
+  const targets: { value: DecodeTarget; label: string }[] = [
+    { value: 'message', label: 'Selected message' },
+    ...(onDecodeStream ? [{ value: 'stream' as const, label: 'Message stream' }] : []),
+    ...(onDecodeGrpc ? [{ value: 'grpc' as const, label: 'gRPC frames' }] : []),
+    ...(onDecodeConfluent ? [{ value: 'confluent' as const, label: 'Confluent record' }] : []),
+    { value: 'raw', label: 'Raw (no schema)' },
+  ];
+
+  // Reset decode result when message type changes
+  useEffect(() => {
+    setResult(null);
+    setRawOutput(null);
+    setStreamResult(null);
+  }, [messageName]);
+
+  // Without a message type only schema-less decoding is possible
+  useEffect(() => {
+    if (disabled) {
+      setTarget('raw');
+    }
+  }, [disabled]);
+
+  // Show ProtoText syntax errors as markers at their line and column
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    const location = isTextProto ? result?.errorLocation : undefined;
+    if (!location) {
+      monaco.editor.setModelMarkers(model, 'prototext-parse', []);
+      return;
+    }
+
+    const line = Math.min(location.line, model.getLineCount());
+    const word = model.getWordAtPosition({ lineNumber: line, column: location.column });
+    monaco.editor.setModelMarkers(model, 'prototext-parse', [
+      {
+        severity: monaco.MarkerSeverity.Error,
+        message: result!.error!,
+        startLineNumber: line,
+        startColumn: location.column,
+        endLineNumber: line,
+        endColumn: word ? word.endColumn : location.column + 1,
+      },
+    ]);
+  }, [result, isTextProto]);
+
+  const resetResult = () => {
+    setResult(null);
+    setRawOutput(null);
+    setCandidates(null);
+    setStreamResult(null);
+    setInputCompression(null);
+  };
+
+  // Compressed payloads (HTTP captures) are recognized by their magic bytes and decompressed
+  const decompressInput = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    const payload = await decompressPayload(bytes);
+    setInputCompression(
+      payload.compression
+        ? { format: payload.compression, compressedLength: bytes.length, length: payload.buffer.length }
+        : null
+    );
+    return payload.buffer;
+  };
+
+  const readInput = (): Promise<Uint8Array> => {
+    if (fileInput) return decompressInput(fileInput.buffer);
+    // gRPC-Web text bodies are base64 chunks padded one by one
+    return decompressInput(
+      inputFormat === 'hex' ? hexToUint8Array(inputText) : base64ChunksToUint8Array(inputText)
+    );
+  };
+
+  // Walk the wire format without a schema, like `protoc --decode_raw`
+  const decodeRaw = (buffer: Uint8Array) => {
+    if (buffer.length === 0) {
+      setResult({ error: 'Input is empty' });
+      return;
+    }
+    try {
+      setRawOutput(formatRawFields(decodeRawFields(buffer)));
+      setResult({ byteLength: buffer.length });
+    } catch (error) {
+      setRawOutput(null);
+      setResult({ error: error instanceof Error ? error.message : 'Failed to decode wire format' });
+    }
+  };
+
+  // Split a length-delimited stream or gRPC body, the messages are loaded into the editor one at a time
+  const decodeStream = (buffer: Uint8Array, kind: 'stream' | 'grpc') => {
+    const split = kind === 'grpc' ? onDecodeGrpc : onDecodeStream;
+    if (!split) return;
+    setRawOutput(null);
+    const decoded = split(buffer);
+    setStreamKind(kind);
+    setStreamResult(decoded);
+    setResult(decoded.error ? { error: decoded.error } : null);
+
+    const first = decoded.messages.find((message) => message.json !== undefined);
+    if (first) {
+      handleLoadMessage(first);
+    } else {
+      setLoadedIndex(null);
+    }
+  };
+
+  const handleLoadMessage = (message: StreamMessage) => {
+    if (message.json === undefined || !onLoadJson) return;
+    onLoadJson(message.json);
+    setLoadedIndex(message.index);
+  };
+
+  const handleLoadAll = () => {
+    if (!streamResult || !onLoadJson) return;
+    const values = streamResult.messages
+      .filter((message) => message.json !== undefined)
+      .map((message) => JSON.parse(message.json!));
+    onLoadJson(JSON.stringify(values, null, 2));
+    setLoadedIndex(null);
+  };
+
+  const runDecode = (buffer: Uint8Array) => {
+    setCandidates(null);
+    setStreamResult(null);
+    if (target === 'raw') {
+      decodeRaw(buffer);
+    } else if (target === 'stream') {
+      decodeStream(buffer, 'stream');
+    } else if (target === 'confluent' && onDecodeConfluent) {
+      setRawOutput(null);
+      setResult(onDecodeConfluent(buffer));
+    } else if (target === 'grpc' || (onDecodeGrpc && isGrpcFramed(buffer))) {
+      // Framed bodies are recognized by their prefix, a message never starts with 0x00 or 0x01
+      decodeStream(buffer, 'grpc');
+    } else {
+      setRawOutput(null);
+      setResult(onDecode(buffer));
+    }
+  };
+
+  const parseText = (text: string) => {
+    setCandidates(null);
+    setRawOutput(null);
+    setResult(onParseProtoText(text));
+  };
+
+  const handleDecode = async () => {
+    if (isTextProto) {
+      parseText(inputText);
+      return;
+    }
+    try {
+      runDecode(await readInput());
+    } catch (error) {
+      setRawOutput(null);
+      setResult({ error: error instanceof Error ? error.message : 'Invalid input' });
+    }
+  };
+
+  const handleDetect = async () => {
+    if (!onDetectTypes) return;
+    setRawOutput(null);
+    setStreamResult(null);
+    try {
+      const ranked = onDetectTypes(await readInput());
+      setCandidates(ranked);
+      setResult(ranked.length === 0 ? { error: 'No message types to try' } : null);
+    } catch (error) {
+      setCandidates(null);
+      setResult({ error: error instanceof Error ? error.message : 'Failed to detect message type' });
+    }
+  };
+
+  const handlePickCandidate = async (candidate: TypeCandidate) => {
+    try {
+      const decoded = onDecode(await readInput(), candidate.messageName);
+      setResult(decoded);
+      if (!decoded.error) {
+        setTarget('message');
+        setCandidates(null);
+      }
+    } catch (error) {
+      setResult({ error: error instanceof Error ? error.message : 'Invalid input' });
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow selecting the same file again
+    e.target.value = '';
+    if (file) {
+      loadFile(file);
+    }
+  };
+
+  const loadFile = async (file: File) => {
+    if (isTextProto) {
+      const text = await file.text();
+      setFileInput(null);
+      setInputText(text);
+      parseText(text);
+      return;
+    }
+
+    const buffer = new Uint8Array(await file.arrayBuffer());
+    setFileInput({ name: file.name, buffer });
+    setInputText('');
+    try {
+      runDecode(await decompressInput(buffer));
+    } catch (error) {
+      setRawOutput(null);
+      setResult({ error: error instanceof Error ? error.message : 'Invalid input' });
+    }
+  };
+
+  // Files dropped on the output panel are decoded like picked ones
+  const loadFileRef = useRef(loadFile);
+  loadFileRef.current = loadFile;
+  useEffect(() => {
+    if (droppedFile) {
+      loadFileRef.current(droppedFile);
+    }
+  }, [droppedFile]);
+
+  const hasInput = !!fileInput || !!inputText.trim();
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="p-4 space-y-4 border-b border-gray-200 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-800">
+        {/* Decode Target Section */}
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+            Decode As
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {targets.map((option) => {
+              const isDisabled =
+                option.value === 'message' ? disabled : option.value === 'raw' ? isTextProto : disabled || isTextProto;
+              return (
+                <label
+                  key={option.value}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg border-2 transition-all ${
+                    isDisabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                  } ${
+                    target === option.value
+                      ? 'border-blue-500 dark:border-blue-400 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-gray-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 hover:border-gray-300 dark:hover:border-neutral-600'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="decodeTarget"
+                    value={option.value}
+                    checked={target === option.value}
+                    disabled={isDisabled}
+                    onChange={() => {
+                      setTarget(option.value);
+                      resetResult();
+                    }}
+                    className="w-4 h-4 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  />
+                  <span
+                    className={`text-sm font-medium truncate ${
+                      target === option.value
+                        ? 'text-blue-700 dark:text-blue-300'
+                        : 'text-gray-700 dark:text-neutral-300'
+                    }`}
+                  >
+                    {option.label}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Input Format Section */}
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+            Input Format
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {formats.map((format) => (
+              <label
+                key={format.value}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border-2 cursor-pointer transition-all ${
+                  inputFormat === format.value
+                    ? 'border-blue-500 dark:border-blue-400 bg-blue-50 dark:bg-blue-900/30'
+                    : 'border-gray-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 hover:border-gray-300 dark:hover:border-neutral-600'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="inputFormat"
+                  value={format.value}
+                  checked={inputFormat === format.value}
+                  onChange={() => {
+                    setInputFormat(format.value);
+                    setFileInput(null);
+                    resetResult();
+                  }}
+                  className="w-4 h-4 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-400"
+                />
+                <span
+                  className={`text-sm font-medium ${
+                    inputFormat === format.value
+                      ? 'text-blue-700 dark:text-blue-300'
+                      : 'text-gray-700 dark:text-neutral-300'
+                  }`}
+                >
+                  {format.label}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Actions Section */}
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+            Actions
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={handleDecode}
+              disabled={(needsMessage && disabled) || !hasInput}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-500 dark:bg-blue-500/80 text-white rounded-lg hover:bg-blue-600 dark:hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-all font-medium text-sm"
+            >
+              <Play size={16} />
+              Decode
+            </button>
+            {onDetectTypes && !isTextProto && (
+              <button
+                onClick={handleDetect}
+                disabled={!hasInput}
+                className="flex items-center justify-center gap-1.5 px-4 py-2.5 bg-white dark:bg-neutral-800 border border-gray-300 dark:border-neutral-600 text-gray-700 dark:text-neutral-300 rounded-lg hover:bg-gray-50 dark:hover:bg-neutral-700 disabled:bg-gray-50 dark:disabled:bg-neutral-800 disabled:text-gray-400 dark:disabled:text-neutral-600 disabled:cursor-not-allowed transition-all text-sm font-medium"
+                title="Try every loaded message type and rank them by fit"
+              >
+                <ScanSearch size={16} />
+                Detect
+              </button>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={needsMessage && disabled}
+              className="flex items-center justify-center gap-1.5 px-4 py-2.5 bg-white dark:bg-neutral-800 border border-gray-300 dark:border-neutral-600 text-gray-700 dark:text-neutral-300 rounded-lg hover:bg-gray-50 dark:hover:bg-neutral-700 disabled:bg-gray-50 dark:disabled:bg-neutral-800 disabled:text-gray-400 dark:disabled:text-neutral-600 disabled:cursor-not-allowed transition-all text-sm font-medium"
+              title={isTextProto ? 'Parse a .textproto file' : 'Decode a binary .bin/.pb file'}
+            >
+              <FileUp size={16} />
+              File
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={isTextProto ? '.textproto,.txtpb,.pbtxt,.txt' : '.bin,.pb,application/octet-stream'}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden p-3 gap-3">
+        <div className="flex-1 flex flex-col min-h-0">
+          <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+            Payload
+            {inputCompression && !isTextProto && (
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-neutral-400">
+                {inputCompression.format}: {inputCompression.compressedLength} → {inputCompression.length} bytes
+              </span>
+            )}
+          </label>
+          {isTextProto ? (
+            <div className="flex-1 min-h-0 border border-gray-200 dark:border-neutral-700 rounded overflow-hidden">
+              <Editor
+                value={inputText}
+                language="prototext"
+                theme={theme === 'dark' ? 'gruvbox-dark-hard' : 'vs'}
+                beforeMount={(monaco) => {
+                  registerCustomTheme(monaco);
+                  registerPrototextLanguage(monaco);
+                }}
+                onMount={(editorInstance, monaco) => {
+                  editorRef.current = editorInstance;
+                  monacoRef.current = monaco;
+                }}
+                onChange={(value) => {
+                  setInputText(value || '');
+                  resetResult();
+                }}
+                options={{
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  fontSize: 13,
+                  lineNumbers: 'on',
+                  tabSize: 2,
+                  wordWrap: 'on',
+                  overviewRulerLanes: 0,
+                  fontFamily: "'JetBrains Mono', 'Fira Code', 'Monaco', 'Courier New', monospace",
+                  padding: { top: 8, bottom: 8 },
+                }}
+              />
+            </div>
+          ) : (
+            <textarea
+              value={inputText}
+              onChange={(e) => {
+                setInputText(e.target.value);
+                setFileInput(null);
+                resetResult();
+              }}
+              placeholder={
+                fileInput
+                  ? `${fileInput.name} (${fileInput.buffer.length} bytes)`
+                  : inputFormat === 'hex'
+                    ? 'Paste hex bytes, e.g. 0a 03 66 6f 6f'
+                    : 'Paste a Base64 payload'
+              }
+              spellCheck={false}
+              className="flex-1 p-3 font-mono text-sm resize-none bg-gray-50 dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded text-gray-800 dark:text-neutral-200 placeholder-gray-400 dark:placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600"
+            />
+          )}
+        </div>
+
+        {rawOutput !== null && !result?.error && (
+          <div className="flex-1 flex flex-col min-h-0">
+            <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+              Wire Format ({result?.byteLength} bytes)
+            </label>
+            <div className="flex-1 p-3 font-mono text-sm overflow-auto bg-gray-50 dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded">
+              <pre className="whitespace-pre text-gray-800 dark:text-neutral-200">{rawOutput || '(no fields)'}</pre>
+            </div>
+          </div>
+        )}
+
+        {streamResult && streamResult.messages.length > 0 && (
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300">
+                {streamKind === 'grpc' ? 'Frames' : 'Messages'} ({streamResult.messages.length} in{' '}
+                {streamResult.byteLength} bytes)
+              </label>
+              {onLoadJson && (
+                <button
+                  onClick={handleLoadAll}
+                  className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  title="Load every decoded message into the editor as a JSON array"
+                >
+                  Load all
+                </button>
+              )}
+            </div>
+            <div className="flex-1 overflow-auto border border-gray-200 dark:border-neutral-700 rounded divide-y divide-gray-200 dark:divide-neutral-700">
+              {streamResult.messages.map((message) => (
+                <button
+                  key={message.index}
+                  onClick={() => handleLoadMessage(message)}
+                  disabled={message.json === undefined}
+                  className={`w-full text-left px-3 py-2 transition-colors disabled:cursor-not-allowed ${
+                    loadedIndex === message.index
+                      ? 'bg-blue-50 dark:bg-blue-900/30'
+                      : 'hover:bg-gray-50 dark:hover:bg-neutral-800'
+                  }`}
+                  title={message.json === undefined ? undefined : 'Load this message into the editor'}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-mono text-gray-800 dark:text-neutral-200">
+                      #{message.index}
+                      {message.trailers && ' trailers'}
+                      {message.compressed && ' compressed'}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-neutral-400 flex-shrink-0">
+                      @{message.offset} · {message.byteLength} bytes
+                    </span>
+                  </div>
+                  {message.trailers && (
+                    <div className="text-[11px] font-mono text-gray-600 dark:text-neutral-400">
+                      {message.trailers.length === 0
+                        ? '(no headers)'
+                        : message.trailers.map(([name, value], headerIndex) => (
+                            <div key={headerIndex} className="truncate">
+                              {name}: {value}
+                            </div>
+                          ))}
+                    </div>
+                  )}
+                  {message.error && (
+                    <div className="text-[11px] text-red-600 dark:text-red-400 truncate">{message.error}</div>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {candidates && candidates.length > 0 && (
+          <div className="flex-1 flex flex-col min-h-0">
+            <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+              Candidate Types
+            </label>
+            <div className="flex-1 overflow-auto border border-gray-200 dark:border-neutral-700 rounded divide-y divide-gray-200 dark:divide-neutral-700">
+              {candidates.map((candidate) => (
+                <button
+                  key={candidate.messageName}
+                  onClick={() => handlePickCandidate(candidate)}
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors"
+                  title="Select this type and decode the payload with it"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-mono text-gray-800 dark:text-neutral-200 truncate">
+                      {candidate.messageName}
+                    </span>
+                    <span
+                      className={`text-xs font-semibold flex-shrink-0 ${
+                        candidate.score === 1
+                          ? 'text-green-600 dark:text-green-400'
+                          : candidate.score >= 0.5
+                            ? 'text-amber-600 dark:text-amber-400'
+                            : 'text-gray-400 dark:text-neutral-500'
+                      }`}
+                    >
+                      {Math.round(candidate.score * 100)}%
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-gray-500 dark:text-neutral-400">
+                    {candidate.matchedFields}/{candidate.totalFields} fields fit
+                    {candidate.issues.length > 0 && ` · ${candidate.issues.slice(0, 2).join('; ')}`}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {result && (result.error || needsMessage) && (
+          <div
+            className={`border rounded p-3 font-mono text-sm ${
+              result.error
+                ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+            }`}
+          >
+            <pre
+              className={`whitespace-pre-wrap break-all ${
+                result.error ? 'text-red-700 dark:text-red-400' : 'text-green-700 dark:text-green-400'
+              }`}
+            >
+              {result.error
+                ? `Error: ${result.error}`
+                : isTextProto
+                  ? 'Parsed ProtoText into the JSON editor'
+                  : 'schemaId' in result && result.schemaId !== undefined
+                    ? `Decoded ${result.messageName} (schema ID ${result.schemaId}, message indexes [${result.messageIndexes?.join(', ')}]) into the JSON editor`
+                    : `Decoded ${result.byteLength} bytes into the JSON editor`}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import type { ReactNode } from 'react';
+import type { MessageContext } from '../types/proto';
+
+interface EditorHeaderProps {
+  title: string;
+  messageContext?: MessageContext | null;
+  hasError?: boolean;
+  actions?: ReactNode;
+}
+
+export const EditorHeader = ({ title, messageContext, hasError, actions }: EditorHeaderProps) => {
+  return (
+    <div className="flex items-center justify-between gap-2 px-4 py-2.5 border-b border-gray-200 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-800 h-[45px]">
+      <div className="flex items-center gap-2 min-w-0 flex-1">
+        {messageContext ? (
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-sm font-semibold text-gray-700 dark:text-neutral-300 flex-shrink-0">
+              {messageContext.messageName.split('.').pop()}
+            </span>
+            <span className="text-xs text-gray-400 dark:text-neutral-500 flex-shrink-0">in</span>
+            <span className="text-xs text-gray-500 dark:text-neutral-400 truncate">
+              {messageContext.fileName || 'unknown'}
+            </span>
+            {messageContext.packageName && (
+              <>
+                <span className="text-xs text-gray-400 dark:text-neutral-500 flex-shrink-0">/</span>
+                <span className="text-xs text-gray-500 dark:text-neutral-400 truncate">
+                  {messageContext.packageName}
+                </span>
+              </>
+            )}
+          </div>
+        ) : (
+          <label className="text-sm font-semibold text-gray-700 dark:text-neutral-300">{title}</label>
+        )}
+      </div>
+      {hasError && (
+        <span className="text-xs text-red-600 dark:text-red-400 font-semibold px-2 py-1 bg-red-50 dark:bg-red-900/30 rounded flex-shrink-0">
+          Validation Error
+        </span>
+      )}
+      {actions}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import type { EditorLanguage } from '../types/proto';
+
+interface EditorLanguageToggleProps {
+  value: EditorLanguage;
+  onChange: (language: EditorLanguage) => void;
+  /** Explains why switching is not possible right now */
+  disabledReason?: string | null;
+}
+
+const LANGUAGES: { value: EditorLanguage; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'textproto', label: 'ProtoText' },
+];
+
+export const EditorLanguageToggle = ({ value, onChange, disabledReason }: EditorLanguageToggleProps) => {
+  return (
+    <div
+      className="flex items-center flex-shrink-0 rounded-md border border-gray-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 p-0.5"
+      title={disabledReason || 'Editing language'}
+    >
+      {LANGUAGES.map((language) => (
+        <button
+          key={language.value}
+          onClick={() => onChange(language.value)}
+          disabled={language.value !== value && !!disabledReason}
+          className={`px-2 py-0.5 text-xs font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            language.value === value
+              ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+              : 'text-gray-600 dark:text-neutral-400 hover:text-gray-800 dark:hover:text-neutral-200'
+          }`}
+        >
+          {language.label}
+        </button>
+      ))}
+    </div>
+  );
+};
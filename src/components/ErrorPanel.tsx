@@ -1,19 +1,38 @@
 import { AlertCircle, X } from 'lucide-react';
+import type { ProtoDiagnostic } from '../types/proto';
 
 interface ErrorPanelProps {
   error: string | null;
+  diagnostics?: ProtoDiagnostic[];
+  onSelectDiagnostic?: (diagnostic: ProtoDiagnostic) => void;
   onDismiss?: () => void;
 }
 
-export const ErrorPanel = ({ error, onDismiss }: ErrorPanelProps) => {
-  if (!error) return null;
+export const ErrorPanel = ({ error, diagnostics = [], onSelectDiagnostic, onDismiss }: ErrorPanelProps) => {
+  if (!error && diagnostics.length === 0) return null;
 
   return (
     <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-2 flex items-start gap-2">
       <AlertCircle className="text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" size={14} />
       <div className="flex-1 min-w-0">
-        <h3 className="text-xs font-semibold text-red-800 dark:text-red-300">Error</h3>
-        <p className="text-xs text-red-700 dark:text-red-400 font-mono break-words">{error}</p>
+        <h3 className="text-xs font-semibold text-red-800 dark:text-red-300">
+          {error ? 'Error' : `${diagnostics.length} ${diagnostics.length === 1 ? 'file' : 'files'} failed to parse`}
+        </h3>
+        {error && <p className="text-xs text-red-700 dark:text-red-400 font-mono break-words">{error}</p>}
+        {diagnostics.map((diagnostic) => (
+          <button
+            key={diagnostic.file}
+            onClick={() => onSelectDiagnostic?.(diagnostic)}
+            disabled={!onSelectDiagnostic}
+            className="block w-full text-left mt-1 text-xs font-mono break-words rounded hover:bg-red-100 dark:hover:bg-red-900/50 disabled:hover:bg-transparent transition-colors"
+            title={onSelectDiagnostic ? 'Go to the error in the source' : undefined}
+          >
+            <span className="font-semibold text-red-800 dark:text-red-300">
+              {diagnostic.file}:{diagnostic.line}:{diagnostic.column}
+            </span>{' '}
+            <span className="text-red-700 dark:text-red-400">{diagnostic.message}</span>
+          </button>
+        ))}
       </div>
       {onDismiss && (
         <button
@@ -26,4 +45,4 @@ export const ErrorPanel = ({ error, onDismiss }: ErrorPanelProps) => {
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,7 +1,8 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { ChevronRight, ChevronDown, File, Package, FileText, X, Star, Search, ArrowUp, ArrowDown } from 'lucide-react';
+import { AlertCircle, ChevronRight, ChevronDown, File, Package, FileText, FileCode, X, Star, Search, ArrowUp, ArrowDown } from 'lucide-react';
 import type { Root } from 'protobufjs';
 import { parse, Root as ProtoRoot } from 'protobufjs';
+import type { LintProblem, ProtoDiagnostic } from '../types/proto';
 
 interface FileTreeNavigatorProps {
   loadedFiles: Map<string, string>;
@@ -10,6 +11,11 @@ interface FileTreeNavigatorProps {
   mainFile: string | null;
   onSelectMessage: (messageName: string) => void;
   onRemoveFile: (filePath: string) => void;
+  lintProblems?: LintProblem[];
+  openFile?: string | null; // file shown in the source editor
+  onOpenFile?: (filePath: string) => void;
+  diagnostics?: ProtoDiagnostic[];
+  onSelectDiagnostic?: (diagnostic: ProtoDiagnostic) => void;
 }
 
 interface MessageNode {
@@ -40,6 +46,11 @@ export const FileTreeNavigator: React.FC<FileTreeNavigatorProps> = ({
   mainFile,
   onSelectMessage,
   onRemoveFile,
+  lintProblems = [],
+  openFile,
+  onOpenFile,
+  diagnostics = [],
+  onSelectDiagnostic,
 }) => {
   const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set(Array.from(loadedFiles.keys())));
   const [expandedPackages, setExpandedPackages] = useState<Set<string>>(new Set());
@@ -47,6 +58,34 @@ export const FileTreeNavigator: React.FC<FileTreeNavigatorProps> = ({
   const [currentResultIndex, setCurrentResultIndex] = useState<number>(0);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  // Lint problem counts per file path and per message full name
+  const lintCounts = useMemo(() => {
+    const byFile = new Map<string, number>();
+    const byType = new Map<string, number>();
+    lintProblems.forEach((problem) => {
+      byFile.set(problem.file, (byFile.get(problem.file) ?? 0) + 1);
+      if (problem.typeName) {
+        byType.set(problem.typeName, (byType.get(problem.typeName) ?? 0) + 1);
+      }
+    });
+    return { byFile, byType };
+  }, [lintProblems]);
+
+  const diagnosticsByFile = useMemo(
+    () => new Map(diagnostics.map((diagnostic) => [diagnostic.file, diagnostic])),
+    [diagnostics]
+  );
+
+  const renderLintBadge = (count: number | undefined) =>
+    count ? (
+      <span
+        className="flex-shrink-0 px-1 rounded text-[10px] font-semibold bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-400"
+        title={`${count} lint ${count === 1 ? 'problem' : 'problems'}`}
+      >
+        {count}
+      </span>
+    ) : null;
+
   // Build tree structure - parse files separately ONLY to determine message origins
   const fileTree = useMemo((): FileNode[] => {
     if (!root || loadedFiles.size === 0) return [];
@@ -468,6 +507,16 @@ export const FileTreeNavigator: React.FC<FileTreeNavigatorProps> = ({
     }
   };
 
+  const handleSelectDiagnostic = (e: React.MouseEvent, diagnostic: ProtoDiagnostic) => {
+    e.stopPropagation();
+    onSelectDiagnostic?.(diagnostic);
+  };
+
+  const handleOpenFile = (e: React.MouseEvent, filePath: string) => {
+    e.stopPropagation();
+    onOpenFile?.(filePath);
+  };
+
   const renderMessage = (message: MessageNode, depth: number) => {
     // Filter: hide if doesn't match search query
     if (searchQuery && !fuzzyMatch(message.name, searchQuery)) {
@@ -492,6 +541,7 @@ export const FileTreeNavigator: React.FC<FileTreeNavigatorProps> = ({
         <span className="truncate" title={message.fullName}>
           {highlightText(message.name, searchQuery)}
         </span>
+        {renderLintBadge(lintCounts.byType.get(message.fullName))}
       </div>
     );
   };
@@ -571,7 +621,11 @@ export const FileTreeNavigator: React.FC<FileTreeNavigatorProps> = ({
     return (
       <div key={file.path}>
         <div
-          className="flex items-center gap-1.5 py-1 px-1.5 cursor-pointer hover:bg-gray-100 dark:hover:bg-neutral-800 transition-colors rounded"
+          className={`flex items-center gap-1.5 py-1 px-1.5 cursor-pointer transition-colors rounded ${
+            openFile === file.path
+              ? 'bg-blue-50 dark:bg-blue-900/20'
+              : 'hover:bg-gray-100 dark:hover:bg-neutral-800'
+          }`}
           onClick={() => toggleFile(file.path)}
         >
           {hasContent && (
@@ -600,6 +654,29 @@ export const FileTreeNavigator: React.FC<FileTreeNavigatorProps> = ({
               </div>
             )}
           </div>
+          {diagnosticsByFile.has(file.path) && (
+            <button
+              onClick={(e) => handleSelectDiagnostic(e, diagnosticsByFile.get(file.path)!)}
+              className="p-0.5 rounded transition-colors text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/50"
+              title={`Line ${diagnosticsByFile.get(file.path)!.line}: ${diagnosticsByFile.get(file.path)!.message}`}
+            >
+              <AlertCircle size={12} />
+            </button>
+          )}
+          {renderLintBadge(lintCounts.byFile.get(file.path))}
+          {onOpenFile && (
+            <button
+              onClick={(e) => handleOpenFile(e, file.path)}
+              className={`p-0.5 rounded transition-colors ${
+                openFile === file.path
+                  ? 'text-blue-600 dark:text-blue-400'
+                  : 'text-gray-400 dark:text-neutral-500 hover:bg-gray-200 dark:hover:bg-neutral-700 hover:text-gray-700 dark:hover:text-neutral-300'
+              }`}
+              title="Edit source"
+            >
+              <FileCode size={12} />
+            </button>
+          )}
           <button
             onClick={(e) => handleRemoveFile(e, file.path)}
             className="p-0.5 hover:bg-red-100 dark:hover:bg-red-900/50 rounded transition-colors text-gray-400 dark:text-neutral-500 hover:text-red-600 dark:hover:text-red-400"
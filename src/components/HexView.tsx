@@ -0,0 +1,79 @@
+import type { ByteRange, JsonPath, WireFieldAnnotation } from '../types/proto';
+import { formatJsonPath, jsonPathStartsWith } from '../utils/jsonLocator';
+import { WIRE_TYPE_NAMES } from '../utils/wireFormat';
+
+interface HexViewProps {
+  buffer: Uint8Array;
+  annotations: WireFieldAnnotation[];
+  highlightedPath?: JsonPath | null;
+  onHoverPath?: (path: JsonPath | null) => void;
+}
+
+const toHex = (buffer: Uint8Array, [start, end]: ByteRange): string =>
+  Array.from(buffer.subarray(start, end))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join(' ');
+
+/**
+ * Hex dump grouped into tag, length and value segments, one row per encoded field
+ */
+export const HexView = ({ buffer, annotations, highlightedPath, onHoverPath }: HexViewProps) => {
+  const renderField = (field: WireFieldAnnotation, depth: number, key: string) => {
+    const isHighlighted = !!highlightedPath && highlightedPath.length > 0 && jsonPathStartsWith(field.path, highlightedPath);
+    const hasChildren = !!field.children && field.children.length > 0;
+
+    const pathLabel = field.fieldName === null
+      ? `#${field.fieldNumber} (unknown)`
+      : field.fieldName === 'key' || field.fieldName === 'value'
+        ? `${formatJsonPath(field.path)} ${field.fieldName}`
+        : formatJsonPath(field.path) + (field.packed ? '[]' : '');
+    const wireLabel = `tag ${field.fieldNumber}, wire type ${field.wireType} (${WIRE_TYPE_NAMES[field.wireType]})`;
+
+    return (
+      <div key={key}>
+        <div
+          className={`flex gap-3 px-1.5 py-0.5 rounded cursor-default transition-colors ${
+            isHighlighted ? 'bg-blue-100 dark:bg-blue-900/40' : 'hover:bg-gray-100 dark:hover:bg-neutral-700/50'
+          }`}
+          style={{ paddingLeft: `${depth * 0.75 + 0.375}rem` }}
+          title={`${pathLabel} · ${wireLabel}`}
+          onMouseEnter={(e) => {
+            e.stopPropagation();
+            onHoverPath?.(field.path);
+          }}
+        >
+          <div className="w-40 flex-shrink-0 min-w-0">
+            <div className="truncate text-gray-800 dark:text-neutral-200">{pathLabel}</div>
+            <div className="text-[10px] text-gray-500 dark:text-neutral-400 truncate">{wireLabel}</div>
+          </div>
+          <div className="flex-1 min-w-0 break-all">
+            <span className="text-blue-600 dark:text-blue-400">{toHex(buffer, field.tag)}</span>
+            {field.length && (
+              <span className="text-amber-600 dark:text-amber-400"> {toHex(buffer, field.length)}</span>
+            )}
+            {!hasChildren && field.value[1] > field.value[0] && (
+              <span className="text-green-700 dark:text-green-400"> {toHex(buffer, field.value)}</span>
+            )}
+          </div>
+        </div>
+        {hasChildren && field.children!.map((child, i) => renderField(child, depth + 1, `${key}.${i}`))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-auto p-2 font-mono text-xs" onMouseLeave={() => onHoverPath?.(null)}>
+      <div className="flex gap-3 px-1.5 pb-2 text-[10px] text-gray-500 dark:text-neutral-400">
+        <span>{buffer.length} bytes</span>
+        <span className="text-blue-600 dark:text-blue-400">tag</span>
+        <span className="text-amber-600 dark:text-amber-400">length</span>
+        <span className="text-green-700 dark:text-green-400">value</span>
+      </div>
+      {annotations.length > 0 ? (
+        annotations.map((field, i) => renderField(field, 0, String(i)))
+      ) : (
+        <p className="px-1.5 text-gray-400 dark:text-neutral-500 italic">Empty message (0 bytes)</p>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,18 @@
-import { useEffect, useRef } from 'react';
-import Editor, { type OnMount } from '@monaco-editor/react';
+import { useEffect, useRef, type ReactNode } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
-import type { JsonSchema, MessageContext } from '../types/proto';
+import type { JsonPath, JsonSchema, MessageContext } from '../types/proto';
 import { useTheme } from '../contexts/ThemeContext';
 import { registerCustomTheme } from '../utils/monacoTheme';
+import {
+  findImpreciseIntegers,
+  findJsonPathRange,
+  getJsonPathAtOffset,
+  indexJsonLocations,
+  jsonPathsEqual,
+  type JsonNodeLocation,
+} from '../utils/jsonLocator';
+import { EditorHeader } from './EditorHeader';
 
 interface JsonEditorProps {
   value: string;
@@ -11,6 +20,9 @@ interface JsonEditorProps {
   schema?: JsonSchema | null;
   error?: string | null;
   messageContext?: MessageContext | null;
+  highlightedPath?: JsonPath | null;
+  onHoverPath?: (path: JsonPath | null) => void;
+  headerActions?: ReactNode;
 }
 
 // Helper function to get type string from schema property
@@ -82,13 +94,73 @@ const getPropertiesFromPath = (schema: JsonSchema, path: string[]): any => {
   return current.properties || null;
 };
 
-export const JsonEditor = ({ value, onChange, schema, error, messageContext }: JsonEditorProps) => {
+export const JsonEditor = ({
+  value,
+  onChange,
+  schema,
+  error,
+  messageContext,
+  highlightedPath,
+  onHoverPath,
+  headerActions,
+}: JsonEditorProps) => {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
   const { theme } = useTheme();
   const completionProviderRef = useRef<any>(null);
+  const decorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const onHoverPathRef = useRef(onHoverPath);
+  const hoveredPathRef = useRef<JsonPath | null>(null);
+  // JSON locations of the editor content, indexed once per model version
+  const jsonIndexRef = useRef<{ model: editor.ITextModel; versionId: number; nodes: JsonNodeLocation[] } | null>(null);
+  // Read by the completion provider, which is registered once on mount
+  const schemaRef = useRef(schema);
+
+  useEffect(() => {
+    onHoverPathRef.current = onHoverPath;
+  }, [onHoverPath]);
+
+  useEffect(() => {
+    schemaRef.current = schema;
+  }, [schema]);
+
+  // Helper function to get the JSON locations of the content, reindexed only after edits
+  const getJsonIndex = (model: editor.ITextModel): JsonNodeLocation[] => {
+    const cached = jsonIndexRef.current;
+    if (cached && cached.model === model && cached.versionId === model.getVersionId()) {
+      return cached.nodes;
+    }
+    const nodes = indexJsonLocations(model.getValue());
+    jsonIndexRef.current = { model, versionId: model.getVersionId(), nodes };
+    return nodes;
+  };
+
+  // Helper function to mark integer literals that JSON.parse would round
+  const updatePrecisionMarkers = (text: string) => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    const markers = findImpreciseIntegers(text).map((node) => {
+      const literal = text.substring(node.start, node.end);
+      const start = model.getPositionAt(node.start);
+      const end = model.getPositionAt(node.end);
+      return {
+        severity: monaco.MarkerSeverity.Warning,
+        message: `${literal} is beyond 2^53 and will be rounded to ${BigInt(Number(literal))}. Write 64-bit integers as strings: "${literal}"`,
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
+      };
+    });
+    monaco.editor.setModelMarkers(model, 'int64-precision', markers);
+  };
 
   const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    updatePrecisionMarkers(editor.getValue());
 
     // Register custom dark theme
     registerCustomTheme(monaco);
@@ -116,6 +188,29 @@ export const JsonEditor = ({ value, onChange, schema, error, messageContext }: J
       window.dispatchEvent(new CustomEvent('setFormat', { detail: 'textproto' }));
     });
 
+    // Add Alt+4 for Proto3 JSON format
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.Digit4, () => {
+      window.dispatchEvent(new CustomEvent('setFormat', { detail: 'proto3json' }));
+    });
+
+    // Report the JSON path under the mouse so the hex view can highlight its bytes
+    editor.onMouseMove((e) => {
+      const model = editor.getModel();
+      const position = e.target.position;
+      const path = model && position ? getJsonPathAtOffset(getJsonIndex(model), model.getOffsetAt(position)) : null;
+      const previous = hoveredPathRef.current;
+      if (path === previous || (path && previous && jsonPathsEqual(path, previous))) return;
+      hoveredPathRef.current = path;
+      onHoverPathRef.current?.(path);
+    });
+
+    editor.onMouseLeave(() => {
+      if (hoveredPathRef.current) {
+        hoveredPathRef.current = null;
+        onHoverPathRef.current?.(null);
+      }
+    });
+
     // Configure JSON language settings with better completion support
     monaco.languages.json.jsonDefaults.setDiagnosticsOptions({
       validate: true,
@@ -131,6 +226,7 @@ export const JsonEditor = ({ value, onChange, schema, error, messageContext }: J
 
     completionProviderRef.current = monaco.languages.registerCompletionItemProvider('json', {
       provideCompletionItems: (model, position) => {
+        const schema = schemaRef.current;
         if (!schema) return { suggestions: [] };
 
         const textUntilPosition = model.getValueInRange({
@@ -183,15 +279,19 @@ export const JsonEditor = ({ value, onChange, schema, error, messageContext }: J
         const suggestions = Object.keys(properties).map((key) => {
           const property = properties[key];
           const typeLabel = getTypeLabel(property);
-          const description = property.description || '';
+          // Proto comments, field number and type, see documentFieldSchema
+          const documentation = property.markdownDescription
+            ? { value: property.markdownDescription }
+            : property.description || '';
 
           return {
             label: key,
             kind: monaco.languages.CompletionItemKind.Property,
             insertText: `"${key}": `,
             range: range,
-            detail: typeLabel, // Type shown on the right
-            documentation: description,
+            detail: property.deprecationMessage ? `${typeLabel} (deprecated)` : typeLabel, // Type shown on the right
+            documentation,
+            tags: property.deprecationMessage ? [monaco.languages.CompletionItemTag.Deprecated] : undefined,
             sortText: key,
           };
         });
@@ -244,6 +344,47 @@ export const JsonEditor = ({ value, onChange, schema, error, messageContext }: J
     }
   }, [value]);
 
+  // Warn about integers that lose precision in JSON (64-bit values must be strings)
+  useEffect(() => {
+    updatePrecisionMarkers(value);
+  }, [value]);
+
+  // Highlight the key linked to the hovered bytes in the hex view
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+
+    if (!decorationsRef.current) {
+      decorationsRef.current = editor.createDecorationsCollection();
+    }
+
+    const range = highlightedPath && highlightedPath.length > 0
+      ? findJsonPathRange(getJsonIndex(model), highlightedPath)
+      : null;
+
+    if (!range) {
+      decorationsRef.current.clear();
+      return;
+    }
+
+    const start = model.getPositionAt(range.start);
+    const end = model.getPositionAt(range.end);
+    const monacoRange = {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    };
+
+    decorationsRef.current.set([{ range: monacoRange, options: { inlineClassName: 'json-path-highlight' } }]);
+
+    // Only scroll when the highlight comes from the hex view, not from hovering the editor itself
+    if (!hoveredPathRef.current) {
+      editor.revealRangeInCenterIfOutsideViewport(monacoRange);
+    }
+  }, [highlightedPath, value]);
+
   // Cleanup completion provider on unmount
   useEffect(() => {
     return () => {
@@ -255,36 +396,7 @@ export const JsonEditor = ({ value, onChange, schema, error, messageContext }: J
 
   return (
     <div className="flex flex-col h-full relative">
-      <div className="flex items-center justify-between px-4 py-2.5 border-b border-gray-200 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-800 h-[45px]">
-        <div className="flex items-center gap-2 min-w-0 flex-1">
-          {messageContext ? (
-            <div className="flex items-center gap-2 min-w-0">
-              <span className="text-sm font-semibold text-gray-700 dark:text-neutral-300 flex-shrink-0">
-                {messageContext.messageName.split('.').pop()}
-              </span>
-              <span className="text-xs text-gray-400 dark:text-neutral-500 flex-shrink-0">in</span>
-              <span className="text-xs text-gray-500 dark:text-neutral-400 truncate">
-                {messageContext.fileName || 'unknown'}
-              </span>
-              {messageContext.packageName && (
-                <>
-                  <span className="text-xs text-gray-400 dark:text-neutral-500 flex-shrink-0">/</span>
-                  <span className="text-xs text-gray-500 dark:text-neutral-400 truncate">
-                    {messageContext.packageName}
-                  </span>
-                </>
-              )}
-            </div>
-          ) : (
-            <label className="text-sm font-semibold text-gray-700 dark:text-neutral-300">JSON Editor</label>
-          )}
-        </div>
-        {error && (
-          <span className="text-xs text-red-600 dark:text-red-400 font-semibold px-2 py-1 bg-red-50 dark:bg-red-900/30 rounded flex-shrink-0">
-            Validation Error
-          </span>
-        )}
-      </div>
+      <EditorHeader title="JSON Editor" messageContext={messageContext} hasError={!!error} actions={headerActions} />
       <div className="flex-1 overflow-hidden relative" tabIndex={0} role="textbox">
         {error && (
           <div className="absolute left-0 top-0 bottom-0 w-0.5 bg-red-400 dark:bg-red-500 z-10 pointer-events-none" />
@@ -1,22 +1,36 @@
 import { useState, useRef, useEffect } from 'react';
 import { Copy } from 'lucide-react';
 import Editor, { type Monaco } from '@monaco-editor/react';
-import type { editor } from 'monaco-editor';
+import type { editor, IDisposable } from 'monaco-editor';
 import { protobufLanguageConfiguration, protobufMonarchLanguage } from '../utils/protobufLanguage';
 import { useTheme } from '../contexts/ThemeContext';
 import { registerCustomTheme } from '../utils/monacoTheme';
+import { attachProtoNavigation, type ProtoNavigationHandlers } from '../utils/protoNavigation';
 
 interface MessageDefinitionProps {
   definition: string | null;
   messageName: string | null;
+  navigation?: ProtoNavigationHandlers; // Ctrl+click and F12 on type names
 }
 
-export const MessageDefinition = ({ definition }: MessageDefinitionProps) => {
+export const MessageDefinition = ({ definition, navigation }: MessageDefinitionProps) => {
   const [copied, setCopied] = useState(false);
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
   const [isLanguageRegistered, setIsLanguageRegistered] = useState(false);
+  const navigationDisposablesRef = useRef<IDisposable[]>([]);
+  const navigationRef = useRef(navigation);
   const { theme } = useTheme();
 
+  useEffect(() => {
+    navigationRef.current = navigation;
+  }, [navigation]);
+
+  useEffect(() => {
+    return () => {
+      navigationDisposablesRef.current.forEach((disposable) => disposable.dispose());
+    };
+  }, []);
+
   const handleEditorWillMount = (monaco: Monaco) => {
     // Register custom dark theme
     registerCustomTheme(monaco);
@@ -42,8 +56,10 @@ export const MessageDefinition = ({ definition }: MessageDefinitionProps) => {
     }
   };
 
-  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor) => {
+  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor, monaco: Monaco) => {
     editorRef.current = editor;
+    navigationDisposablesRef.current.forEach((disposable) => disposable.dispose());
+    navigationDisposablesRef.current = attachProtoNavigation(editor, monaco, () => navigationRef.current ?? null);
   };
 
   // Update Monaco Editor theme when app theme changes
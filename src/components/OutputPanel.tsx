@@ -2,46 +2,174 @@ import { useState, useRef, useEffect } from 'react';
 import { Copy, Download, Play } from 'lucide-react';
 import Editor, { type Monaco } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
-import type { OutputFormat, ConversionResult } from '../types/proto';
+import type {
+  ByteLiteralFormat,
+  CompareInput,
+  CompareResult,
+  ConfluentDecodeResult,
+  OutputFormat,
+  ConversionOptions,
+  ConversionResult,
+  DecodeResult,
+  JsonPath,
+  SizeAnalysisResult,
+  StreamDecodeResult,
+  TypeCandidate,
+} from '../types/proto';
 import { MessageDefinition } from './MessageDefinition';
-import { prototextLanguageConfiguration, prototextMonarchLanguage } from '../utils/prototextLanguage';
+import { DecodePanel } from './DecodePanel';
+import { ComparePanel } from './ComparePanel';
+import { SizePanel } from './SizePanel';
+import { HexView } from './HexView';
+import { registerPrototextLanguage } from '../utils/prototextLanguage';
 import { useTheme } from '../contexts/ThemeContext';
 import { registerCustomTheme } from '../utils/monacoTheme';
+import { compressBytes } from '../utils/compression';
+import { uint8ArrayToBase64, uint8ArrayToHex } from '../utils/binaryEncoding';
+import { formatByteLiteral, isByteLiteralFormat } from '../utils/byteLiterals';
+import type { ProtoNavigationHandlers } from '../utils/protoNavigation';
 
-type TabType = 'output' | 'schema';
+type TabType = 'output' | 'decode' | 'compare' | 'size' | 'schema';
 
 interface OutputPanelProps {
-  onConvert: (format: OutputFormat) => ConversionResult;
+  onConvert: (format: OutputFormat, options?: ConversionOptions) => ConversionResult;
+  onConvertStream?: (format: OutputFormat, options?: ConversionOptions) => ConversionResult;
+  onDecode: (buffer: Uint8Array, messageName?: string) => DecodeResult;
+  onDecodeStream?: (buffer: Uint8Array) => StreamDecodeResult;
+  onDecodeGrpc?: (buffer: Uint8Array) => StreamDecodeResult;
+  onDecodeConfluent?: (buffer: Uint8Array) => ConfluentDecodeResult;
+  onLoadJson?: (json: string) => void;
+  onParseProtoText: (text: string) => DecodeResult;
+  onDetectTypes?: (buffer: Uint8Array) => TypeCandidate[];
+  onCompare?: (before: CompareInput, after: CompareInput) => CompareResult;
+  onAnalyzeSize?: () => SizeAnalysisResult;
   disabled?: boolean;
   messageDefinition?: string | null;
   messageName?: string | null;
+  schemaNavigation?: ProtoNavigationHandlers; // go to definition and find usages in the schema viewer
+  highlightedPath?: JsonPath | null;
+  onHoverPath?: (path: JsonPath | null) => void;
 }
 
-export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageName }: OutputPanelProps) => {
-  const [activeTab, setActiveTab] = useState<TabType>('output');
+export const OutputPanel = ({
+  onConvert,
+  onConvertStream,
+  onDecode,
+  onDecodeStream,
+  onDecodeGrpc,
+  onDecodeConfluent,
+  onLoadJson,
+  onParseProtoText,
+  onDetectTypes,
+  onCompare,
+  onAnalyzeSize,
+  disabled,
+  messageDefinition,
+  messageName,
+  schemaNavigation,
+  highlightedPath,
+  onHoverPath,
+}: OutputPanelProps) => {
+  // Schema-less decoding is the only thing available before a message is selected
+  const [activeTab, setActiveTab] = useState<TabType>(messageName ? 'output' : 'decode');
   const [selectedFormat, setSelectedFormat] = useState<OutputFormat>('base64');
   const [result, setResult] = useState<ConversionResult | null>(null);
+  // Length-delimited stream of the messages in the editor
+  const [streamMode, setStreamMode] = useState(false);
+  const [grpcTrailers, setGrpcTrailers] = useState(false);
+  // Schema ID of the Confluent Schema Registry envelope, null when the output isn't wrapped
+  const [confluentSchemaId, setConfluentSchemaId] = useState<string | null>(null);
+  const [gzipOutput, setGzipOutput] = useState(false);
+  // Binary file dropped on the panel, handed to the Decode tab
+  const [droppedFile, setDroppedFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [copied, setCopied] = useState(false);
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
   const [isLanguageRegistered, setIsLanguageRegistered] = useState(false);
   const { theme } = useTheme();
 
+  const tabs: { value: TabType; label: string }[] = [
+    { value: 'output', label: 'Output' },
+    { value: 'decode', label: 'Decode' },
+    ...(onCompare ? [{ value: 'compare' as const, label: 'Compare' }] : []),
+    ...(onAnalyzeSize ? [{ value: 'size' as const, label: 'Size' }] : []),
+    { value: 'schema', label: 'Schema' },
+  ];
+
   const formats: { value: OutputFormat; label: string }[] = [
     { value: 'base64', label: 'Base64' },
     { value: 'hex', label: 'Hex' },
+    { value: 'binary', label: 'Binary (.bin)' },
     { value: 'textproto', label: 'ProtoText' },
+    { value: 'proto3json', label: 'Proto3 JSON' },
+    { value: 'grpc', label: 'gRPC Frame' },
+    { value: 'grpcwebtext', label: 'gRPC-Web Text' },
   ];
 
+  // Bytes as code for pasting into tests, offered in a drop-down next to the formats
+  const literalFormats: { value: ByteLiteralFormat; label: string; filename: string }[] = [
+    { value: 'base64url', label: 'URL-safe Base64 (no padding)', filename: 'output.base64url.txt' },
+    { value: 'go', label: 'Go []byte', filename: 'output.go.txt' },
+    { value: 'c', label: 'C/C++ array initializer', filename: 'output.c.txt' },
+    { value: 'python', label: "Python b'\\x..'", filename: 'output.py.txt' },
+    { value: 'java', label: 'Java new byte[]', filename: 'output.java.txt' },
+    { value: 'rust', label: 'Rust &[u8]', filename: 'output.rs.txt' },
+    { value: 'octal', label: 'Escaped octal string', filename: 'output.octal.txt' },
+  ];
+
+  // A stream is binary, only the byte encodings can hold it
+  const streamFormats = new Set<OutputFormat>(['base64', 'hex', 'binary', 'grpc', 'grpcwebtext']);
+  // The mode is passed in while it is being switched, the state still holds the old one
+  const isFormatDisabled = (format: OutputFormat, inStreamMode = streamMode) =>
+    inStreamMode && !streamFormats.has(format) && !isByteLiteralFormat(format);
+  const isByteFormat =
+    selectedFormat === 'base64' ||
+    selectedFormat === 'hex' ||
+    selectedFormat === 'binary' ||
+    isByteLiteralFormat(selectedFormat);
+  // A Kafka record holds a single message as raw bytes
+  const canWrapConfluent = !streamMode && isByteFormat;
+
   // Reset conversion result when message type changes
   useEffect(() => {
     setResult(null);
     setCopied(false);
   }, [messageName]);
 
-  const handleConvert = () => {
-    const conversionResult = onConvert(selectedFormat);
-    setResult(conversionResult);
+  const handleConvert = async () => {
+    const options: ConversionOptions = { grpcTrailers };
+    if (canWrapConfluent && confluentSchemaId !== null) {
+      const schemaId = Number(confluentSchemaId);
+      if (!/^\d+$/.test(confluentSchemaId.trim()) || schemaId > 0x7fffffff) {
+        setResult({ error: 'Schema ID must be a whole number between 0 and 2147483647' });
+        return;
+      }
+      options.confluentSchemaId = schemaId;
+    }
+    const conversionResult =
+      streamMode && onConvertStream ? onConvertStream(selectedFormat, options) : onConvert(selectedFormat, options);
     setCopied(false);
+
+    if (!gzipOutput || !isByteFormat || conversionResult.error || !conversionResult.binary) {
+      setResult(conversionResult);
+      return;
+    }
+
+    // Annotations point into the uncompressed bytes, the compressed output is shown as plain text
+    try {
+      const compressed = await compressBytes(conversionResult.binary, 'gzip');
+      setResult({
+        binary: compressed,
+        base64: uint8ArrayToBase64(compressed),
+        hex: uint8ArrayToHex(compressed),
+        literal: isByteLiteralFormat(selectedFormat) ? formatByteLiteral(compressed, selectedFormat) : undefined,
+        messageCount: conversionResult.messageCount,
+        roundTrip: conversionResult.roundTrip,
+        compression: { format: 'gzip', uncompressedLength: conversionResult.binary.length },
+      });
+    } catch (error) {
+      setResult({ error: `Compression failed: ${error instanceof Error ? error.message : String(error)}` });
+    }
   };
 
   // Listen for global conversion trigger and format changes
@@ -55,7 +183,7 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
     const handleSetFormat = (event: Event) => {
       const customEvent = event as CustomEvent;
       const format = customEvent.detail as OutputFormat;
-      if (formats.some((f) => f.value === format)) {
+      if (formats.some((f) => f.value === format) && !isFormatDisabled(format)) {
         setSelectedFormat(format);
         setResult(null);
       }
@@ -68,7 +196,15 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
       window.removeEventListener('triggerConversion', handleGlobalConversion);
       window.removeEventListener('setFormat', handleSetFormat as EventListener);
     };
-  }, [disabled, selectedFormat, onConvert]);
+  }, [disabled, selectedFormat, streamMode, grpcTrailers, confluentSchemaId, gzipOutput, onConvert, onConvertStream]);
+
+  const handleStreamModeChange = (enabled: boolean) => {
+    setStreamMode(enabled);
+    if (isFormatDisabled(selectedFormat, enabled)) {
+      setSelectedFormat('base64');
+    }
+    setResult(null);
+  };
 
   const handleEditorWillMount = (monaco: Monaco) => {
     // Register custom dark theme
@@ -79,21 +215,7 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
 
     // Register prototext language only once
     if (!isLanguageRegistered) {
-      // Check if language is already registered
-      const languages = monaco.languages.getLanguages();
-      const isProtoTextRegistered = languages.some((lang) => lang.id === 'prototext');
-
-      if (!isProtoTextRegistered) {
-        // Register the language
-        monaco.languages.register({ id: 'prototext' });
-
-        // Set language configuration
-        monaco.languages.setLanguageConfiguration('prototext', prototextLanguageConfiguration);
-
-        // Set monarch tokenizer
-        monaco.languages.setMonarchTokensProvider('prototext', prototextMonarchLanguage);
-      }
-
+      registerPrototextLanguage(monaco);
       setIsLanguageRegistered(true);
     }
   };
@@ -116,13 +238,15 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
     switch (selectedFormat) {
       case 'textproto':
         return 'prototext';
+      case 'proto3json':
+        return 'json';
       default:
         return 'plaintext';
     }
   };
 
   const shouldUseMonaco = (): boolean => {
-    return selectedFormat === 'textproto';
+    return selectedFormat === 'textproto' || selectedFormat === 'proto3json';
   };
 
   const getOutputValue = (): string => {
@@ -134,10 +258,19 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
         return result.base64 || '';
       case 'hex':
         return result.hex || '';
+      case 'binary':
+        // Shown as hex, copied as hex; the download writes the raw bytes
+        return result.binary ? uint8ArrayToHex(result.binary) : '';
       case 'textproto':
         return result.textproto || '';
+      case 'proto3json':
+        return result.proto3json || '';
+      case 'grpc':
+        return result.grpc || '';
+      case 'grpcwebtext':
+        return result.grpcWebText || '';
       default:
-        return '';
+        return isByteLiteralFormat(selectedFormat) ? result.literal || '' : '';
     }
   };
 
@@ -169,12 +302,34 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
         blob = new Blob([result.hex || ''], { type: 'text/plain' });
         filename = 'output.hex.txt';
         break;
+      case 'binary':
+        if (!result.binary) return;
+        blob = new Blob([new Uint8Array(result.binary)], { type: 'application/octet-stream' });
+        filename = 'output.bin';
+        break;
       case 'textproto':
         blob = new Blob([result.textproto || ''], { type: 'text/plain' });
         filename = 'output.textproto';
         break;
-      default:
-        return;
+      case 'proto3json':
+        blob = new Blob([result.proto3json || ''], { type: 'application/json' });
+        filename = 'output.json';
+        break;
+      case 'grpc':
+        blob = new Blob([result.grpc || ''], { type: 'text/plain' });
+        filename = 'output.grpc.hex.txt';
+        break;
+      case 'grpcwebtext':
+        blob = new Blob([result.grpcWebText || ''], { type: 'application/grpc-web-text' });
+        filename = 'output.grpc-web-text.txt';
+        break;
+      default: {
+        const literalFormat = literalFormats.find((format) => format.value === selectedFormat);
+        if (!literalFormat) return;
+        blob = new Blob([result.literal || ''], { type: 'text/plain' });
+        filename = literalFormat.filename;
+        break;
+      }
     }
 
     const url = URL.createObjectURL(blob);
@@ -187,30 +342,60 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
     URL.revokeObjectURL(url);
   };
 
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between children fires dragleave too
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  // Dropped files are decoded in the Decode tab, like `protoc --decode < file.bin`
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (!file) return;
+    setActiveTab('decode');
+    setDroppedFile(file);
+  };
+
   return (
-    <div className="flex flex-col h-full">
+    <div
+      className="flex flex-col h-full relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-20 m-2 flex items-center justify-center border-2 border-dashed border-blue-400 dark:border-blue-500 rounded-lg bg-blue-50/90 dark:bg-blue-900/60 pointer-events-none">
+          <p className="text-sm font-semibold text-blue-700 dark:text-blue-300">Drop a .bin/.pb file to decode it</p>
+        </div>
+      )}
       {/* Tabs */}
       <div className="flex gap-1 px-3 pt-2 border-b border-gray-200 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-800">
-        <button
-          onClick={() => setActiveTab('output')}
-          className={`px-4 py-2 text-sm font-semibold transition-all rounded-t border-b-2 -mb-[1px] ${
-            activeTab === 'output'
-              ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 bg-white dark:bg-neutral-900'
-              : 'text-gray-500 dark:text-neutral-400 border-transparent hover:text-gray-700 dark:hover:text-neutral-200 hover:bg-gray-100 dark:hover:bg-neutral-700'
-          }`}
-        >
-          Output
-        </button>
-        <button
-          onClick={() => setActiveTab('schema')}
-          className={`px-4 py-2 text-sm font-semibold transition-all rounded-t border-b-2 -mb-[1px] ${
-            activeTab === 'schema'
-              ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 bg-white dark:bg-neutral-900'
-              : 'text-gray-500 dark:text-neutral-400 border-transparent hover:text-gray-700 dark:hover:text-neutral-200 hover:bg-gray-100 dark:hover:bg-neutral-700'
-          }`}
-        >
-          Schema
-        </button>
+        {tabs.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => {
+              setActiveTab(tab.value);
+              // A dropped file is decoded once, not again when the Decode tab remounts
+              setDroppedFile(null);
+            }}
+            className={`px-4 py-2 text-sm font-semibold transition-all rounded-t border-b-2 -mb-[1px] ${
+              activeTab === tab.value
+                ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 bg-white dark:bg-neutral-900'
+                : 'text-gray-500 dark:text-neutral-400 border-transparent hover:text-gray-700 dark:hover:text-neutral-200 hover:bg-gray-100 dark:hover:bg-neutral-700'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
       </div>
 
       {/* Tab Content */}
@@ -219,14 +404,32 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
           <div className="p-4 space-y-4 border-b border-gray-200 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-800">
             {/* Output Format Section */}
             <div>
-              <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
-                Output Format
-              </label>
-              <div className="grid grid-cols-3 gap-2">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300">
+                  Output Format
+                </label>
+                {onConvertStream && (
+                  <label
+                    className="flex items-center gap-1.5 text-xs font-medium text-gray-600 dark:text-neutral-400 cursor-pointer"
+                    title="Encode a JSON array (or JSON Lines) of messages, each prefixed with its varint length"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={streamMode}
+                      onChange={(e) => handleStreamModeChange(e.target.checked)}
+                      className="w-3.5 h-3.5 text-blue-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+                    />
+                    Stream (length-delimited)
+                  </label>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
                 {formats.map((format) => (
                   <label
                     key={format.value}
-                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border-2 cursor-pointer transition-all ${
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border-2 transition-all ${
+                      isFormatDisabled(format.value) ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                    } ${
                       selectedFormat === format.value
                         ? 'border-blue-500 dark:border-blue-400 bg-blue-50 dark:bg-blue-900/30'
                         : 'border-gray-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 hover:border-gray-300 dark:hover:border-neutral-600'
@@ -237,6 +440,7 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
                       name="format"
                       value={format.value}
                       checked={selectedFormat === format.value}
+                      disabled={isFormatDisabled(format.value)}
                       onChange={() => {
                         setSelectedFormat(format.value);
                         setResult(null);
@@ -255,6 +459,94 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
                   </label>
                 ))}
               </div>
+              <select
+                value={isByteLiteralFormat(selectedFormat) ? selectedFormat : ''}
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  setSelectedFormat(e.target.value as ByteLiteralFormat);
+                  setResult(null);
+                }}
+                aria-label="Byte literal format"
+                className={`w-full mt-2 px-3 py-2 text-sm font-medium rounded-lg border-2 bg-white dark:bg-neutral-900 focus:outline-none transition-all cursor-pointer ${
+                  isByteLiteralFormat(selectedFormat)
+                    ? 'border-blue-500 dark:border-blue-400 text-blue-700 dark:text-blue-300'
+                    : 'border-gray-200 dark:border-neutral-700 text-gray-700 dark:text-neutral-300 hover:border-gray-300 dark:hover:border-neutral-600'
+                }`}
+              >
+                <option value="">Byte literal for code…</option>
+                {literalFormats.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label}
+                  </option>
+                ))}
+              </select>
+              {selectedFormat === 'grpcwebtext' && (
+                <label
+                  className="flex items-center gap-1.5 mt-2 text-xs font-medium text-gray-600 dark:text-neutral-400 cursor-pointer"
+                  title="Close the body with a trailer frame, as a server response would"
+                >
+                  <input
+                    type="checkbox"
+                    checked={grpcTrailers}
+                    onChange={(e) => {
+                      setGrpcTrailers(e.target.checked);
+                      setResult(null);
+                    }}
+                    className="w-3.5 h-3.5 text-blue-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+                  />
+                  Append trailers (grpc-status: 0)
+                </label>
+              )}
+              {isByteFormat && (
+                <label
+                  className="flex items-center gap-1.5 mt-2 text-xs font-medium text-gray-600 dark:text-neutral-400 cursor-pointer"
+                  title="Compress the bytes with gzip, as an HTTP body with Content-Encoding: gzip"
+                >
+                  <input
+                    type="checkbox"
+                    checked={gzipOutput}
+                    onChange={(e) => {
+                      setGzipOutput(e.target.checked);
+                      setResult(null);
+                    }}
+                    className="w-3.5 h-3.5 text-blue-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+                  />
+                  Gzip compressed
+                </label>
+              )}
+              {canWrapConfluent && (
+                <div className="flex items-center gap-2 mt-2">
+                  <label
+                    className="flex items-center gap-1.5 text-xs font-medium text-gray-600 dark:text-neutral-400 cursor-pointer"
+                    title="Prefix the payload with magic byte 0, the schema ID and the message indexes, as Kafka serializers do"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={confluentSchemaId !== null}
+                      onChange={(e) => {
+                        setConfluentSchemaId(e.target.checked ? '1' : null);
+                        setResult(null);
+                      }}
+                      className="w-3.5 h-3.5 text-blue-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+                    />
+                    Confluent envelope
+                  </label>
+                  {confluentSchemaId !== null && (
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={confluentSchemaId}
+                      onChange={(e) => {
+                        setConfluentSchemaId(e.target.value);
+                        setResult(null);
+                      }}
+                      placeholder="Schema ID"
+                      aria-label="Schema ID"
+                      className="w-24 px-2 py-0.5 text-xs font-mono bg-white dark:bg-neutral-900 border border-gray-300 dark:border-neutral-600 rounded text-gray-800 dark:text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600"
+                    />
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Actions Section */}
@@ -295,6 +587,21 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
           <div className="flex-1 flex flex-col overflow-hidden p-3">
             <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
               Result
+              {result?.messageCount !== undefined && !result.error && (
+                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-neutral-400">
+                  {result.messageCount} {result.messageCount === 1 ? 'message' : 'messages'}
+                </span>
+              )}
+              {result?.compression && result.binary && (
+                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-neutral-400">
+                  {result.compression.format}: {result.compression.uncompressedLength} → {result.binary.length} bytes
+                </span>
+              )}
+              {selectedFormat === 'binary' && result?.binary && !result.compression && (
+                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-neutral-400">
+                  {result.binary.length} bytes
+                </span>
+              )}
             </label>
             <div
               className={`flex-1 border rounded overflow-hidden ${
@@ -310,6 +617,13 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
                       {getOutputValue()}
                     </pre>
                   </div>
+                ) : (selectedFormat === 'hex' || selectedFormat === 'binary') && result.binary && result.annotations ? (
+                  <HexView
+                    buffer={result.binary}
+                    annotations={result.annotations}
+                    highlightedPath={highlightedPath}
+                    onHoverPath={onHoverPath}
+                  />
                 ) : shouldUseMonaco() ? (
                   <Editor
                     value={getOutputValue()}
@@ -355,10 +669,67 @@ export const OutputPanel = ({ onConvert, disabled, messageDefinition, messageNam
                 </div>
               )}
             </div>
+
+            {result?.roundTrip && !result.error && (
+              <div className="mt-3 flex flex-col max-h-48 min-h-0">
+                <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+                  Round Trip
+                  {result.roundTrip.length > 0 && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-neutral-400">
+                      {result.roundTrip.length} {result.roundTrip.length === 1 ? 'issue' : 'issues'}
+                    </span>
+                  )}
+                </label>
+                {result.roundTrip.length === 0 ? (
+                  <div className="border rounded px-3 py-2 text-xs bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400">
+                    Decoding the output gives back the input JSON
+                  </div>
+                ) : (
+                  <div
+                    className="overflow-auto border rounded bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 divide-y divide-amber-200 dark:divide-amber-800"
+                    onMouseLeave={() => onHoverPath?.(null)}
+                  >
+                    {result.roundTrip.map((issue, index) => (
+                      <div
+                        key={index}
+                        onMouseEnter={() => onHoverPath?.(issue.path)}
+                        className="px-3 py-1.5 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+                      >
+                        <span className="text-xs font-mono font-semibold text-amber-700 dark:text-amber-400">
+                          {issue.path.join('.') || '(root)'}
+                        </span>
+                        <span className="ml-2 text-xs text-gray-700 dark:text-neutral-300">{issue.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
+      ) : activeTab === 'decode' ? (
+        <DecodePanel
+          onDecode={onDecode}
+          onDecodeStream={onDecodeStream}
+          onDecodeGrpc={onDecodeGrpc}
+          onDecodeConfluent={onDecodeConfluent}
+          onLoadJson={onLoadJson}
+          onParseProtoText={onParseProtoText}
+          onDetectTypes={onDetectTypes}
+          disabled={!messageName}
+          messageName={messageName}
+          droppedFile={droppedFile}
+        />
+      ) : activeTab === 'compare' && onCompare ? (
+        <ComparePanel onCompare={onCompare} disabled={!messageName} messageName={messageName} />
+      ) : activeTab === 'size' && onAnalyzeSize ? (
+        <SizePanel onAnalyze={onAnalyzeSize} disabled={disabled} messageName={messageName} />
       ) : (
-        <MessageDefinition definition={messageDefinition || null} messageName={messageName || null} />
+        <MessageDefinition
+          definition={messageDefinition || null}
+          messageName={messageName || null}
+          navigation={schemaNavigation}
+        />
       )}
     </div>
   );
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ListChecks, Settings } from 'lucide-react';
+import type { LintProblem } from '../types/proto';
+import { LINT_RULES } from '../utils/protoLint';
+
+interface ProblemsPanelProps {
+  problems: LintProblem[];
+  disabledRules: Set<string>;
+  onToggleRule: (rule: string, enabled: boolean) => void;
+  messageNames: string[];
+  onSelectMessage: (messageName: string) => void;
+}
+
+export const ProblemsPanel = ({ problems, disabledRules, onToggleRule, messageNames, onSelectMessage }: ProblemsPanelProps) => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [showRules, setShowRules] = useState(false);
+
+  const problemsByFile = useMemo(() => {
+    const groups = new Map<string, LintProblem[]>();
+    problems.forEach((problem) => {
+      groups.set(problem.file, [...(groups.get(problem.file) ?? []), problem]);
+    });
+    return Array.from(groups.entries());
+  }, [problems]);
+
+  const canSelect = (problem: LintProblem): boolean => !!problem.typeName && messageNames.includes(problem.typeName);
+
+  return (
+    <div className="border border-gray-300 dark:border-neutral-600 rounded-lg p-2">
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="flex items-center gap-1.5 w-full text-left hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors rounded px-1 py-0.5 -mx-1 -my-0.5"
+        title={isCollapsed ? 'Expand' : 'Collapse'}
+      >
+        <ListChecks size={14} className="text-gray-500 dark:text-neutral-400 flex-shrink-0" />
+        <h3 className="flex-1 text-xs font-semibold text-gray-700 dark:text-neutral-300">Problems</h3>
+        <span
+          className={`text-[11px] font-semibold ${
+            problems.length > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-green-600 dark:text-green-400'
+          }`}
+        >
+          {problems.length === 0 ? 'none' : problems.length}
+        </span>
+        <ChevronDown
+          size={14}
+          className={`text-gray-600 dark:text-neutral-400 transition-transform ${isCollapsed ? '' : 'rotate-180'}`}
+        />
+      </button>
+
+      {!isCollapsed && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[11px] text-gray-500 dark:text-neutral-400">
+              Style checks over the loaded files ({LINT_RULES.length - disabledRules.size} of {LINT_RULES.length} rules)
+            </p>
+            <button
+              onClick={() => setShowRules(!showRules)}
+              className={`p-1 rounded transition-colors ${
+                showRules
+                  ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-400'
+                  : 'text-gray-500 dark:text-neutral-400 hover:bg-gray-100 dark:hover:bg-neutral-800'
+              }`}
+              title="Configure rules"
+            >
+              <Settings size={12} />
+            </button>
+          </div>
+
+          {showRules && (
+            <div className="space-y-1 border border-gray-200 dark:border-neutral-700 rounded p-2">
+              {LINT_RULES.map((rule) => (
+                <label key={rule.id} className="flex items-start gap-1.5 cursor-pointer" title={rule.description}>
+                  <input
+                    type="checkbox"
+                    checked={!disabledRules.has(rule.id)}
+                    onChange={(e) => onToggleRule(rule.id, e.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-[10px] font-mono text-gray-800 dark:text-neutral-200 break-all">{rule.id}</span>
+                    <span className="block text-[10px] text-gray-500 dark:text-neutral-400">{rule.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {problems.length === 0 && (
+            <p className="text-[11px] text-green-700 dark:text-green-400">No problems in the loaded files</p>
+          )}
+
+          {problems.length > 0 && (
+            <div className="max-h-64 overflow-auto border border-gray-200 dark:border-neutral-700 rounded">
+              {problemsByFile.map(([file, fileProblems]) => (
+                <div key={file}>
+                  <div className="px-2 py-1 text-[11px] font-semibold text-gray-700 dark:text-neutral-300 bg-gray-50 dark:bg-neutral-800 truncate" title={file}>
+                    {file}
+                  </div>
+                  {fileProblems.map((problem, index) => (
+                    <div
+                      key={index}
+                      onClick={() => canSelect(problem) && onSelectMessage(problem.typeName!)}
+                      className={`px-2 py-1.5 border-t border-gray-200 dark:border-neutral-700 ${
+                        canSelect(problem) ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-neutral-800' : ''
+                      }`}
+                    >
+                      <div className="text-[11px] text-gray-600 dark:text-neutral-400">
+                        <span className="font-mono text-gray-400 dark:text-neutral-500 mr-1.5">{problem.line}</span>
+                        {problem.message}
+                      </div>
+                      <div className="text-[10px] font-mono text-gray-400 dark:text-neutral-500">{problem.rule}</div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
+import type { editor, IDisposable } from 'monaco-editor';
+import { X } from 'lucide-react';
+import { parse, Root } from 'protobufjs';
+import { useTheme } from '../contexts/ThemeContext';
+import { registerCustomTheme } from '../utils/monacoTheme';
+import { registerProtobufLanguage } from '../utils/protobufLanguage';
+import type { ProtoDiagnostic, TextLocation } from '../types/proto';
+import { locateProtoParseError, type ProtoParseError } from '../utils/protoParseErrors';
+import { attachProtoNavigation, type ProtoNavigationHandlers } from '../utils/protoNavigation';
+import { EditorHeader } from './EditorHeader';
+
+interface ProtoSourceEditorProps {
+  filePath: string;
+  value: string;
+  onChange: (content: string) => void;
+  onClose: () => void;
+  revealLocation?: TextLocation | null; // moves the cursor there, e.g. to a parse error
+  diagnostic?: ProtoDiagnostic | null; // error from parsing this file together with the others
+  navigation?: ProtoNavigationHandlers;
+}
+
+// Edits are applied to the loaded files once typing pauses
+const REPARSE_DELAY = 500;
+
+export const ProtoSourceEditor = ({ filePath, value, onChange, onClose, revealLocation, diagnostic, navigation }: ProtoSourceEditorProps) => {
+  const [draft, setDraft] = useState(value);
+  const [isEditorReady, setIsEditorReady] = useState(false);
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const navigationDisposablesRef = useRef<IDisposable[]>([]);
+  // The navigation is attached once, the index changes underneath it
+  const navigationRef = useRef(navigation);
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    navigationRef.current = navigation;
+  }, [navigation]);
+
+  // Syntax check of this file alone; clashes with other files (duplicate names) come from the
+  // diagnostic of the last parse, which only applies while the draft matches the parsed content
+  const parseError = useMemo((): ProtoParseError | null => {
+    try {
+      parse(draft, new Root(), { keepCase: false });
+    } catch (error) {
+      return locateProtoParseError(error, draft);
+    }
+    return diagnostic && draft === value
+      ? { message: diagnostic.message, location: { line: diagnostic.line, column: diagnostic.column } }
+      : null;
+  }, [draft, value, diagnostic]);
+
+  // A draft with a syntax error isn't applied: its types would drop out and the selection with them
+  useEffect(() => {
+    if (draft === value || parseError) return;
+
+    const timeoutId = setTimeout(() => onChange(draft), REPARSE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [draft, value, parseError, onChange]);
+
+  const handleEditorWillMount = (monaco: Monaco) => {
+    registerCustomTheme(monaco);
+    registerProtobufLanguage(monaco);
+  };
+
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    navigationDisposablesRef.current = attachProtoNavigation(editor, monaco, () => navigationRef.current ?? null);
+    setIsEditorReady(true);
+  };
+
+  useEffect(() => {
+    return () => {
+      navigationDisposablesRef.current.forEach((disposable) => disposable.dispose());
+    };
+  }, []);
+
+  // Update Monaco Editor theme when app theme changes
+  useEffect(() => {
+    monacoRef.current?.editor.setTheme(theme === 'dark' ? 'gruvbox-dark-hard' : 'vs');
+  }, [theme]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !revealLocation) return;
+
+    editor.revealLineInCenter(revealLocation.line);
+    editor.setPosition({ lineNumber: revealLocation.line, column: revealLocation.column });
+    editor.focus();
+  }, [revealLocation, isEditorReady]);
+
+  // Show the syntax error as a marker at its line
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    if (!parseError) {
+      monaco.editor.setModelMarkers(model, 'protobuf-parse', []);
+      return;
+    }
+
+    const line = Math.min(parseError.location?.line ?? 1, model.getLineCount());
+    const column = parseError.location?.column ?? 1;
+    const word = model.getWordAtPosition({ lineNumber: line, column });
+    monaco.editor.setModelMarkers(model, 'protobuf-parse', [
+      {
+        severity: monaco.MarkerSeverity.Error,
+        message: parseError.message,
+        startLineNumber: line,
+        startColumn: column,
+        endLineNumber: line,
+        endColumn: word ? word.endColumn : model.getLineMaxColumn(line),
+      },
+    ]);
+  }, [parseError, isEditorReady]);
+
+  return (
+    <div className="flex flex-col h-full relative">
+      <EditorHeader
+        title={filePath}
+        hasError={!!parseError}
+        actions={
+          <button
+            onClick={onClose}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-neutral-400 hover:bg-gray-200 dark:hover:bg-neutral-700 rounded transition-colors flex-shrink-0"
+            title="Close the source and go back to the message"
+          >
+            <X size={14} />
+            Close
+          </button>
+        }
+      />
+      <div className="flex-1 overflow-hidden relative">
+        {parseError && (
+          <div className="absolute left-0 top-0 bottom-0 w-0.5 bg-red-400 dark:bg-red-500 z-10 pointer-events-none" />
+        )}
+        <Editor
+          height="100%"
+          defaultLanguage="protobuf"
+          defaultValue={value}
+          onChange={(content) => setDraft(content || '')}
+          beforeMount={handleEditorWillMount}
+          onMount={handleEditorDidMount}
+          theme={theme === 'dark' ? 'gruvbox-dark-hard' : 'vs'}
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            lineNumbers: 'on',
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            tabSize: 2,
+          }}
+        />
+      </div>
+      {parseError && (
+        <div className="px-4 py-2 border-t border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-xs font-mono text-red-700 dark:text-red-400 truncate">
+          {parseError.location ? `Line ${parseError.location.line}: ` : ''}
+          {parseError.message}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,347 @@
+import { useEffect, useRef, type ReactNode } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
+import type { editor, IDisposable, languages } from 'monaco-editor';
+import { Type, Enum, Field, MapField } from 'protobufjs';
+import type { MessageContext, TextLocation } from '../types/proto';
+import { useTheme } from '../contexts/ThemeContext';
+import { registerCustomTheme } from '../utils/monacoTheme';
+import { registerPrototextLanguage } from '../utils/prototextLanguage';
+import { findProtoTextField } from '../utils/parseProtoText';
+import { EditorHeader } from './EditorHeader';
+
+interface ProtoTextEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  messageType?: Type | null;
+  error?: string | null;
+  errorLocation?: TextLocation;
+  messageContext?: MessageContext | null;
+  headerActions?: ReactNode;
+}
+
+// Message type (or map entry) the cursor is inside of
+interface ProtoTextScope {
+  type: Type | null;
+  mapField?: MapField;
+}
+
+// Strings, comments, identifiers and brackets; anything else is a single character
+const SCOPE_TOKEN_PATTERN = /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|#[^\n]*|[A-Za-z_][\w.]*|[^\s]/g;
+
+// Helper function to get the type label shown next to a field suggestion
+const getFieldLabel = (field: Field): string => {
+  if (field instanceof MapField) {
+    return `map<${field.keyType}, ${field.type}>`;
+  }
+  return field.repeated ? `repeated ${field.type}` : field.type;
+};
+
+// Helper function to resolve the scope opened by `name {`
+const enterScope = (scope: ProtoTextScope, name: string | null): ProtoTextScope => {
+  if (!name) return { type: null };
+
+  if (scope.mapField) {
+    const valueType = scope.mapField.resolvedType;
+    return { type: name === 'value' && valueType instanceof Type ? valueType : null };
+  }
+
+  if (!scope.type) return { type: null };
+
+  const field = findProtoTextField(scope.type, name);
+  if (field instanceof MapField) {
+    return { type: null, mapField: field };
+  }
+  return { type: field?.resolvedType instanceof Type ? field.resolvedType : null };
+};
+
+// Helper function to walk the text before the cursor and find the enclosing message
+const findScope = (text: string, rootType: Type): ProtoTextScope => {
+  const stack: ProtoTextScope[] = [{ type: rootType }];
+  // Field names of open `name: [` lists, so every `{` in the list enters the same field
+  const lists: (string | null)[] = [];
+  let lastName: string | null = null;
+  let previous = '';
+
+  for (const match of text.matchAll(SCOPE_TOKEN_PATTERN)) {
+    const token = match[0];
+    if (token.startsWith('#')) continue;
+
+    if (/^[A-Za-z_]/.test(token)) {
+      lastName = token;
+    } else if (token === '[') {
+      lists.push(lastName);
+    } else if (token === ']') {
+      lists.pop();
+    } else if (token === '{' || token === '<') {
+      const inList = (previous === '[' || previous === ',') && lists.length > 0;
+      stack.push(enterScope(stack[stack.length - 1], inList ? lists[lists.length - 1] : lastName));
+      lastName = null;
+    } else if ((token === '}' || token === '>') && stack.length > 1) {
+      stack.pop();
+    }
+
+    previous = token;
+  }
+
+  return stack[stack.length - 1];
+};
+
+export const ProtoTextEditor = ({
+  value,
+  onChange,
+  messageType,
+  error,
+  errorLocation,
+  messageContext,
+  headerActions,
+}: ProtoTextEditorProps) => {
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const completionProviderRef = useRef<IDisposable | null>(null);
+  // The provider is registered once, the selected type changes underneath it
+  const messageTypeRef = useRef(messageType);
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    messageTypeRef.current = messageType;
+  }, [messageType]);
+
+  const handleEditorWillMount = (monaco: Monaco) => {
+    registerCustomTheme(monaco);
+    registerPrototextLanguage(monaco);
+  };
+
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+
+    // Add Cmd+Enter keyboard shortcut for conversion
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => {
+      window.dispatchEvent(new CustomEvent('triggerConversion'));
+    });
+
+    // Add Alt+1/2/3/4 for Base64, Hex, ProtoText and Proto3 JSON formats
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.Digit1, () => {
+      window.dispatchEvent(new CustomEvent('setFormat', { detail: 'base64' }));
+    });
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.Digit2, () => {
+      window.dispatchEvent(new CustomEvent('setFormat', { detail: 'hex' }));
+    });
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.Digit3, () => {
+      window.dispatchEvent(new CustomEvent('setFormat', { detail: 'textproto' }));
+    });
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.Digit4, () => {
+      window.dispatchEvent(new CustomEvent('setFormat', { detail: 'proto3json' }));
+    });
+
+    if (completionProviderRef.current) {
+      completionProviderRef.current.dispose();
+    }
+
+    // Field names of the enclosing message, enum values and booleans after `name:`
+    completionProviderRef.current = monaco.languages.registerCompletionItemProvider('prototext', {
+      triggerCharacters: [':', ' '],
+      provideCompletionItems: (model, position) => {
+        const rootType = messageTypeRef.current;
+        if (!rootType) return { suggestions: [] };
+        rootType.resolveAll();
+
+        const textUntilPosition = model.getValueInRange({
+          startLineNumber: 1,
+          startColumn: 1,
+          endLineNumber: position.lineNumber,
+          endColumn: position.column,
+        });
+        const beforeCursor = model.getLineContent(position.lineNumber).substring(0, position.column - 1);
+
+        const word = model.getWordUntilPosition(position);
+        const range = {
+          startLineNumber: position.lineNumber,
+          endLineNumber: position.lineNumber,
+          startColumn: word.startColumn,
+          endColumn: word.endColumn,
+        };
+
+        // No suggestions inside comments or unterminated strings
+        const outsideStrings = beforeCursor.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '');
+        if (/[#"']/.test(outsideStrings)) {
+          return { suggestions: [] };
+        }
+
+        const scope = findScope(textUntilPosition.substring(0, textUntilPosition.length - word.word.length), rootType);
+
+        // Value position: `name: |`
+        const valueMatch = /([A-Za-z_]\w*)\s*:\s*[\w-]*$/.exec(beforeCursor);
+        if (valueMatch) {
+          let field: Field | MapField | null = null;
+          if (scope.mapField) {
+            field = valueMatch[1] === 'value' ? scope.mapField : null;
+          } else if (scope.type) {
+            field = findProtoTextField(scope.type, valueMatch[1]);
+          }
+          if (!field) return { suggestions: [] };
+
+          if (field.resolvedType instanceof Enum) {
+            const enumType = field.resolvedType;
+            return {
+              suggestions: Object.entries(enumType.values).map(([name, number]) => ({
+                label: name,
+                kind: monaco.languages.CompletionItemKind.EnumMember,
+                insertText: name,
+                range,
+                detail: `${enumType.name} = ${number}`,
+                sortText: String(number).padStart(10, '0'),
+              })),
+            };
+          }
+
+          if (field.type === 'bool') {
+            return {
+              suggestions: ['true', 'false'].map((label) => ({
+                label,
+                kind: monaco.languages.CompletionItemKind.Value,
+                insertText: label,
+                range,
+              })),
+            };
+          }
+
+          return { suggestions: [] };
+        }
+
+        // Field name position: start of a line or after a separator
+        if (!/(^|[\s{<,;[])[\w]*$/.test(beforeCursor)) {
+          return { suggestions: [] };
+        }
+
+        if (scope.mapField) {
+          const mapField = scope.mapField;
+          const valueIsMessage = mapField.resolvedType instanceof Type;
+          return {
+            suggestions: [
+              {
+                label: 'key',
+                kind: monaco.languages.CompletionItemKind.Property,
+                insertText: 'key: ',
+                range,
+                detail: mapField.keyType,
+              },
+              {
+                label: 'value',
+                kind: monaco.languages.CompletionItemKind.Property,
+                insertText: valueIsMessage ? 'value {\n\t$0\n}' : 'value: ',
+                insertTextRules: valueIsMessage
+                  ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet
+                  : undefined,
+                range,
+                detail: mapField.type,
+              },
+            ],
+          };
+        }
+
+        if (!scope.type) return { suggestions: [] };
+
+        const suggestions: languages.CompletionItem[] = scope.type.fieldsArray.map((field) => {
+          const isBlock = field instanceof MapField || field.resolvedType instanceof Type;
+          return {
+            label: field.name,
+            kind: monaco.languages.CompletionItemKind.Field,
+            insertText: isBlock ? `${field.name} {\n\t$0\n}` : `${field.name}: `,
+            insertTextRules: isBlock ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+            range,
+            detail: getFieldLabel(field),
+            documentation: `Field number: ${field.id}`,
+            sortText: String(field.id).padStart(10, '0'),
+          };
+        });
+
+        return { suggestions };
+      },
+    });
+  };
+
+  // Update Monaco Editor theme when app theme changes
+  useEffect(() => {
+    monacoRef.current?.editor.setTheme(theme === 'dark' ? 'gruvbox-dark-hard' : 'vs');
+  }, [theme]);
+
+  // Force update editor value when it changes externally
+  useEffect(() => {
+    if (editorRef.current && editorRef.current.getValue() !== value) {
+      editorRef.current.setValue(value);
+    }
+  }, [value]);
+
+  // Show syntax errors as markers at their line and column
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    if (!errorLocation || !error) {
+      monaco.editor.setModelMarkers(model, 'prototext-parse', []);
+      return;
+    }
+
+    const line = Math.min(errorLocation.line, model.getLineCount());
+    const word = model.getWordAtPosition({ lineNumber: line, column: errorLocation.column });
+    monaco.editor.setModelMarkers(model, 'prototext-parse', [
+      {
+        severity: monaco.MarkerSeverity.Error,
+        message: error,
+        startLineNumber: line,
+        startColumn: errorLocation.column,
+        endLineNumber: line,
+        endColumn: word ? word.endColumn : errorLocation.column + 1,
+      },
+    ]);
+  }, [error, errorLocation, value]);
+
+  // Cleanup completion provider on unmount
+  useEffect(() => {
+    return () => {
+      completionProviderRef.current?.dispose();
+    };
+  }, []);
+
+  return (
+    <div className="flex flex-col h-full relative">
+      <EditorHeader title="ProtoText Editor" messageContext={messageContext} hasError={!!error} actions={headerActions} />
+      <div className="flex-1 overflow-hidden relative" tabIndex={0} role="textbox">
+        {error && (
+          <div className="absolute left-0 top-0 bottom-0 w-0.5 bg-red-400 dark:bg-red-500 z-10 pointer-events-none" />
+        )}
+        <Editor
+          height="100%"
+          defaultLanguage="prototext"
+          value={value}
+          onChange={(value) => onChange(value || '')}
+          beforeMount={handleEditorWillMount}
+          onMount={handleEditorDidMount}
+          theme={theme === 'dark' ? 'gruvbox-dark-hard' : 'vs'}
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            lineNumbers: 'on',
+            scrollBeyondLastLine: false,
+            wordWrap: 'on',
+            automaticLayout: true,
+            tabSize: 2,
+            quickSuggestions: {
+              strings: false,
+              comments: false,
+              other: true,
+            },
+            padding: { top: 12, bottom: 12 },
+          }}
+        />
+        {error && (
+          <div className="absolute bottom-0 left-0 right-0 px-4 py-2 bg-red-50/95 dark:bg-red-900/80 backdrop-blur-sm border-t border-red-200 dark:border-red-800 z-10">
+            <p className="text-sm text-red-700 dark:text-red-400 font-mono">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
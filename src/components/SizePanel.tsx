@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, Play } from 'lucide-react';
+import type { FieldSize, SizeAnalysisResult } from '../types/proto';
+import { compressBytes } from '../utils/compression';
+
+interface SizePanelProps {
+  onAnalyze: () => SizeAnalysisResult;
+  disabled?: boolean;
+  messageName?: string | null;
+}
+
+// gzip sizes of the protobuf and JSON encodings, computed after the analysis
+interface CompressedSizes {
+  binary: number;
+  json: number;
+}
+
+const formatPercent = (part: number, total: number): string =>
+  total === 0 ? '0%' : `${((part / total) * 100).toFixed(part / total < 0.1 ? 1 : 0)}%`;
+
+export const SizePanel = ({ onAnalyze, disabled, messageName }: SizePanelProps) => {
+  const [result, setResult] = useState<SizeAnalysisResult | null>(null);
+  const [compressed, setCompressed] = useState<CompressedSizes | null>(null);
+  // Keys of expanded nodes: field numbers joined by "/"
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setResult(null);
+    setCompressed(null);
+    setExpanded(new Set());
+  }, [messageName]);
+
+  const handleAnalyze = async () => {
+    const analysis = onAnalyze();
+    setResult(analysis);
+    setCompressed(null);
+    if (!analysis.binary || analysis.json === undefined) return;
+
+    try {
+      const [binary, json] = await Promise.all([
+        compressBytes(analysis.binary),
+        compressBytes(new TextEncoder().encode(analysis.json)),
+      ]);
+      setCompressed({ binary: binary.length, json: json.length });
+    } catch {
+      // Compression isn't available, the uncompressed sizes are still shown
+    }
+  };
+
+  const toggleNode = (key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const totalBytes = result?.binary?.length ?? 0;
+  const jsonBytes = result?.json !== undefined ? new TextEncoder().encode(result.json).length : 0;
+
+  const renderNode = (node: FieldSize, parentKey: string, depth: number) => {
+    const key = `${parentKey}/${node.fieldNumber}`;
+    const isExpanded = expanded.has(key);
+    const hasChildren = node.children.length > 0;
+    return (
+      <div key={key}>
+        <button
+          onClick={() => hasChildren && toggleNode(key)}
+          className={`w-full text-left px-2 py-1 flex items-center gap-1.5 text-xs ${
+            hasChildren ? 'hover:bg-gray-50 dark:hover:bg-neutral-800 cursor-pointer' : 'cursor-default'
+          }`}
+          style={{ paddingLeft: `${depth * 14 + 8}px` }}
+          title={`${node.overhead} of ${node.bytes} bytes are this field's tags and length prefixes`}
+        >
+          <span className="w-3 flex-shrink-0 text-gray-400 dark:text-neutral-500">
+            {hasChildren && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+          </span>
+          <span className="font-mono text-gray-800 dark:text-neutral-200 truncate">{node.name}</span>
+          {node.count > 1 && <span className="text-gray-400 dark:text-neutral-500 flex-shrink-0">×{node.count}</span>}
+          <span className="ml-auto flex-shrink-0 text-gray-400 dark:text-neutral-500">tag {node.overhead}</span>
+          <span className="flex-shrink-0 font-mono text-gray-700 dark:text-neutral-300">{node.bytes} B</span>
+          <span className="w-10 flex-shrink-0 text-right text-gray-500 dark:text-neutral-400">
+            {formatPercent(node.bytes, totalBytes)}
+          </span>
+        </button>
+        <div className="h-1 mb-0.5 bg-gray-100 dark:bg-neutral-800" style={{ marginLeft: `${depth * 14 + 26}px` }}>
+          <div
+            className="h-full bg-blue-500 dark:bg-blue-400"
+            style={{ width: formatPercent(node.bytes, totalBytes) }}
+          />
+        </div>
+        {isExpanded && node.children.map((child) => renderNode(child, key, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="p-4 space-y-3 border-b border-gray-200 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-800">
+        <button
+          onClick={handleAnalyze}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-500 dark:bg-blue-500/80 text-white rounded-lg hover:bg-blue-600 dark:hover:bg-blue-600 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-all font-medium text-sm"
+        >
+          <Play size={16} />
+          Analyze
+        </button>
+        {result?.binary && (
+          <div className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs">
+            <span />
+            <span className="font-semibold text-gray-600 dark:text-neutral-400">Size</span>
+            <span className="font-semibold text-gray-600 dark:text-neutral-400">gzip</span>
+            <span className="font-semibold text-gray-700 dark:text-neutral-300">Protobuf</span>
+            <span className="font-mono text-gray-800 dark:text-neutral-200">{totalBytes} B</span>
+            <span className="font-mono text-gray-800 dark:text-neutral-200">
+              {compressed ? `${compressed.binary} B (${formatPercent(compressed.binary, totalBytes)})` : '…'}
+            </span>
+            <span className="font-semibold text-gray-700 dark:text-neutral-300">JSON</span>
+            <span className="font-mono text-gray-800 dark:text-neutral-200">{jsonBytes} B</span>
+            <span className="font-mono text-gray-800 dark:text-neutral-200">
+              {compressed ? `${compressed.json} B (${formatPercent(compressed.json, jsonBytes)})` : '…'}
+            </span>
+            <span className="col-span-3 mt-1 text-gray-500 dark:text-neutral-400">
+              Protobuf is {formatPercent(totalBytes, jsonBytes)} of the JSON size
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 flex flex-col min-h-0 p-3">
+        <label className="block text-sm font-semibold text-gray-700 dark:text-neutral-300 mb-2">
+          Fields
+          {result?.fields && (
+            <span className="ml-2 text-xs font-normal text-gray-500 dark:text-neutral-400">
+              bytes per field, tags and length prefixes included
+            </span>
+          )}
+        </label>
+        {result?.error ? (
+          <div className="border rounded p-3 font-mono text-sm bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
+            <pre className="whitespace-pre-wrap break-all text-red-700 dark:text-red-400">Error: {result.error}</pre>
+          </div>
+        ) : result?.fields && result.fields.length === 0 ? (
+          <p className="text-gray-400 dark:text-neutral-500 italic text-center pt-8 text-sm">
+            Every field is at its default value, the message encodes to 0 bytes
+          </p>
+        ) : result?.fields ? (
+          <div className="flex-1 overflow-auto border border-gray-200 dark:border-neutral-700 rounded py-1">
+            {result.fields.map((node) => renderNode(node, '', 0))}
+          </div>
+        ) : (
+          <p className="text-gray-400 dark:text-neutral-500 italic text-center pt-8 text-sm">
+            Click "Analyze" to break the editor's message down by field
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, Search, X } from 'lucide-react';
+import type { ProtoDefinition, ProtoIndex, ProtoTypeReference } from '../types/proto';
+
+interface UsagesPanelProps {
+  index: ProtoIndex;
+  selectedMessage: string | null;
+  target: string | null; // type picked by "Find Usages", the selected message otherwise
+  onTargetChange: (typeName: string | null) => void;
+  onOpenLocation: (location: ProtoDefinition | ProtoTypeReference) => void;
+}
+
+export const UsagesPanel = ({ index, selectedMessage, target, onTargetChange, onOpenLocation }: UsagesPanelProps) => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [query, setQuery] = useState('');
+
+  const typeName = target ?? selectedMessage;
+  const definition = typeName ? index.definitions.get(typeName) : undefined;
+
+  // "Find Usages" opens the panel
+  useEffect(() => {
+    if (target) {
+      setIsCollapsed(false);
+      setQuery(target);
+    }
+  }, [target]);
+
+  const usages = useMemo(
+    () => (typeName ? index.references.filter((reference) => reference.typeName === typeName) : []),
+    [index, typeName]
+  );
+
+  const typeNames = useMemo(() => Array.from(index.definitions.keys()).sort(), [index]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    if (index.definitions.has(value)) {
+      onTargetChange(value);
+    }
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    onTargetChange(null);
+  };
+
+  return (
+    <div className="border border-gray-300 dark:border-neutral-600 rounded-lg p-2">
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="flex items-center gap-1.5 w-full text-left hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors rounded px-1 py-0.5 -mx-1 -my-0.5"
+        title={isCollapsed ? 'Expand' : 'Collapse'}
+      >
+        <Search size={14} className="text-gray-500 dark:text-neutral-400 flex-shrink-0" />
+        <h3 className="flex-1 text-xs font-semibold text-gray-700 dark:text-neutral-300">Usages</h3>
+        {definition && (
+          <span className="text-[11px] font-semibold text-gray-500 dark:text-neutral-400">{usages.length}</span>
+        )}
+        <ChevronDown
+          size={14}
+          className={`text-gray-600 dark:text-neutral-400 transition-transform ${isCollapsed ? '' : 'rotate-180'}`}
+        />
+      </button>
+
+      {!isCollapsed && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              list="usages-type-names"
+              placeholder={selectedMessage ?? 'Message or enum'}
+              className="flex-1 min-w-0 px-2 py-1 text-xs font-mono bg-gray-50 dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent text-gray-900 dark:text-neutral-100 placeholder-gray-400 dark:placeholder-neutral-500"
+            />
+            <datalist id="usages-type-names">
+              {typeNames.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            {target && (
+              <button
+                onClick={handleClear}
+                className="p-1 rounded text-gray-500 dark:text-neutral-400 hover:bg-gray-100 dark:hover:bg-neutral-800 transition-colors"
+                title="Back to the selected message"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+
+          {definition ? (
+            <>
+              <button
+                onClick={() => onOpenLocation(definition)}
+                className="block w-full text-left text-[11px] text-gray-500 dark:text-neutral-400 hover:text-blue-600 dark:hover:text-blue-400 truncate"
+                title="Go to definition"
+              >
+                {definition.kind} declared in{' '}
+                <span className="font-mono">
+                  {definition.file}:{definition.line}
+                </span>
+              </button>
+
+              {usages.length === 0 ? (
+                <p className="text-[11px] text-gray-400 dark:text-neutral-500 italic">No field of the loaded files uses it</p>
+              ) : (
+                <div className="max-h-64 overflow-auto divide-y divide-gray-200 dark:divide-neutral-700 border border-gray-200 dark:border-neutral-700 rounded">
+                  {usages.map((usage, usageIndex) => (
+                    <button
+                      key={usageIndex}
+                      onClick={() => onOpenLocation(usage)}
+                      className="block w-full text-left px-2 py-1.5 hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors"
+                    >
+                      <code className="block text-[11px] font-mono text-gray-800 dark:text-neutral-200 truncate" title={usage.field}>
+                        {usage.field}
+                      </code>
+                      <span className="block text-[10px] text-gray-400 dark:text-neutral-500 truncate">
+                        {usage.file}:{usage.line}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-[11px] text-gray-500 dark:text-neutral-400">
+              Pick a message or enum, or use "Find Usages" (Shift+F12) on a type name in a .proto view
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,142 @@
 import { useCallback } from 'react';
-import { Root } from 'protobufjs';
-import type { ConversionResult, OutputFormat } from '../types/proto';
-import { normalizeEnumValues } from '../utils/normalizeEnumValues';
-import { normalizeBytesFields } from '../utils/normalizeBytesFields';
+import { Root, Type, Writer, type Message } from 'protobufjs';
+import type {
+  CompareInput,
+  CompareResult,
+  ConfluentDecodeResult,
+  ConversionOptions,
+  ConversionResult,
+  DecodeResult,
+  OutputFormat,
+  SizeAnalysisResult,
+  StreamDecodeResult,
+  StreamMessage,
+  TypeCandidate,
+} from '../types/proto';
+import { normalizeMessage } from '../utils/normalizeMessage';
+import { concatBytes, uint8ArrayToBase64, uint8ArrayToHex } from '../utils/binaryEncoding';
+import { annotateWireFormat } from '../utils/annotateWireFormat';
+import { formatByteLiteral, isByteLiteralFormat } from '../utils/byteLiterals';
+import { detectMessageTypes } from '../utils/detectMessageType';
+import { parseProtoText, ProtoTextParseError } from '../utils/parseProtoText';
+import { messageToProtoText } from '../utils/formatProtoText';
+import { fromProto3Json, messageToProto3Json } from '../utils/proto3Json';
+import { parseMessageList, splitDelimited } from '../utils/messageStream';
+import { compareRoundTrip } from '../utils/roundTripReport';
+import { diffJson } from '../utils/fieldDiff';
+import { buildSizeTree } from '../utils/sizeAnalysis';
+import { encodeGrpcFrame, encodeGrpcTrailers, parseGrpcTrailers, splitGrpcFrames } from '../utils/grpcFraming';
+import {
+  encodeConfluentEnvelope,
+  findMessageIndexes,
+  parseConfluentEnvelope,
+  resolveMessageIndexes,
+} from '../utils/confluentWireFormat';
+
+// Helper function to turn one parsed JSON message into a protobufjs message
+// Throws an Error starting with "Validation error:" when the object doesn't fit the type
+const jsonToMessage = (obj: unknown, type: Type): Message => {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    throw new Error(`Validation error: expected a JSON object for ${type.name}`);
+  }
+
+  // Map canonical proto3 JSON (int64 strings, Timestamp strings, Any with @type...) to protobufjs objects
+  const protoObj = fromProto3Json(obj, type);
+
+  // Normalize enum names and plain-text bytes everywhere, including lists and maps
+  const normalizedObj = normalizeMessage(protoObj, type);
+
+  // Verify the object first
+  const verifyError = type.verify(normalizedObj);
+  if (verifyError) {
+    throw new Error(`Validation error: ${verifyError}`);
+  }
+
+  // Create message from object
+  return type.fromObject(normalizedObj);
+};
+
+// Helper function to add context to common conversion errors
+const describeConversionError = (error: unknown): string => {
+  let errorMessage = error instanceof Error ? error.message : 'Conversion failed';
+
+  // Add helpful context for common errors
+  if (errorMessage.includes('invalid encoding') || errorMessage.includes('Invalid encoding')) {
+    errorMessage += '\n\nNote: For bytes fields, you can enter plain text (it will be auto-converted to base64) or valid base64-encoded data.';
+  }
+
+  return errorMessage;
+};
+
+// Helper function to frame encoded messages as a gRPC body, optionally closed by an OK trailer frame
+const toGrpcBody = (payloads: Uint8Array[], trailers = false): Uint8Array => {
+  const frames = payloads.map((payload) => encodeGrpcFrame(payload));
+  if (trailers) {
+    frames.push(
+      encodeGrpcTrailers([
+        ['grpc-status', '0'],
+        ['grpc-message', ''],
+      ])
+    );
+  }
+  return concatBytes(frames);
+};
+
+// Helper function to write an encoded message (or its Schema Registry record) in the requested format
+const formatEncoded = (
+  format: OutputFormat,
+  buffer: Uint8Array,
+  record: Uint8Array | null,
+  message: Message,
+  type: Type,
+  options: ConversionOptions
+): ConversionResult => {
+  switch (format) {
+    case 'binary':
+      if (record) {
+        return { binary: record };
+      }
+      return { binary: buffer, annotations: annotateWireFormat(buffer, type) };
+
+    case 'base64':
+      return { base64: uint8ArrayToBase64(record ?? buffer), binary: record ?? buffer };
+
+    case 'hex':
+      if (record) {
+        return { hex: uint8ArrayToHex(record), binary: record };
+      }
+      // Annotations map each byte back to its field for the interactive hex view
+      return { hex: uint8ArrayToHex(buffer), binary: buffer, annotations: annotateWireFormat(buffer, type) };
+
+    case 'textproto':
+      return { textproto: messageToProtoText(message, type) };
+
+    case 'proto3json':
+      return { proto3json: JSON.stringify(messageToProto3Json(message, type), null, 2) };
+
+    case 'grpc': {
+      const body = toGrpcBody([buffer]);
+      return { grpc: uint8ArrayToHex(body), binary: body };
+    }
+
+    case 'grpcwebtext':
+      return { grpcWebText: uint8ArrayToBase64(toGrpcBody([buffer], options.grpcTrailers)) };
+
+    default:
+      if (isByteLiteralFormat(format)) {
+        return { literal: formatByteLiteral(record ?? buffer, format), binary: record ?? buffer };
+      }
+      return { error: 'Unknown format' };
+  }
+};
 
-export const useConversion = (root: Root | null, selectedMessage: string | null) => {
+export const useConversion = (
+  root: Root | null,
+  selectedMessage: string | null,
+  loadedFiles: Map<string, string>
+) => {
   const convert = useCallback(
-    (jsonText: string, format: OutputFormat): ConversionResult => {
+    (jsonText: string, format: OutputFormat, options: ConversionOptions = {}): ConversionResult => {
       if (!root || !selectedMessage) {
         return { error: 'No message type selected' };
       }
@@ -15,50 +145,98 @@ export const useConversion = (root: Root | null, selectedMessage: string | null)
         const type = root.lookupType(selectedMessage);
         const obj = JSON.parse(jsonText);
 
-        // Normalize enum values (convert string enum names to numbers)
-        let normalizedObj = normalizeEnumValues(obj, type);
-
-        // Normalize bytes fields (convert plain text to base64)
-        normalizedObj = normalizeBytesFields(normalizedObj, type);
-
-        // Verify the object first
-        const verifyError = type.verify(normalizedObj);
-        if (verifyError) {
-          return { error: `Validation error: ${verifyError}` };
+        if (Array.isArray(obj)) {
+          return { error: 'The editor holds a list of messages, turn on Stream mode to encode it as a length-delimited stream' };
         }
 
-        // Create message from object
-        const message = type.fromObject(normalizedObj);
+        const message = jsonToMessage(obj, type);
 
         // Encode to binary
         const buffer = type.encode(message).finish();
 
-        // Convert based on format
+        // Schema Registry records locate the message by its position in the file that declares it
+        let record: Uint8Array | null = null;
+        if (options.confluentSchemaId !== undefined) {
+          const location = findMessageIndexes(loadedFiles, selectedMessage);
+          if (!location) {
+            return { error: `None of the loaded files declares ${selectedMessage}, its message indexes are unknown` };
+          }
+          record = encodeConfluentEnvelope(buffer, options.confluentSchemaId, location.messageIndexes);
+        }
+
+        const result = formatEncoded(format, buffer, record, message, type, options);
+        if (result.error) {
+          return result;
+        }
+
+        // Decode the output again and compare it with the input to report what didn't survive
+        const roundTrip = compareRoundTrip(obj, messageToProto3Json(type.decode(buffer), type), type);
+        return { ...result, roundTrip };
+      } catch (error) {
+        return { error: describeConversionError(error) };
+      }
+    },
+    [root, selectedMessage, loadedFiles]
+  );
+
+  // Encode a JSON array (or JSON Lines) of messages as one length-delimited stream, or one gRPC frame per message
+  const convertStream = useCallback(
+    (jsonText: string, format: OutputFormat, options: ConversionOptions = {}): ConversionResult => {
+      if (!root || !selectedMessage) {
+        return { error: 'No message type selected' };
+      }
+
+      try {
+        const type = root.lookupType(selectedMessage);
+        const items = parseMessageList(jsonText);
+        if (items.length === 0) {
+          return { error: 'The stream is empty, add at least one message to the JSON array' };
+        }
+
+        const messages = items.map((item, index) => {
+          try {
+            return jsonToMessage(item, type);
+          } catch (error) {
+            throw new Error(`Message ${index}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+
+        const payloads = messages.map((message) => type.encode(message).finish());
+
+        // Round-trip paths start with the message's index in the stream
+        const roundTrip = payloads.flatMap((payload, index) =>
+          compareRoundTrip(items[index], messageToProto3Json(type.decode(payload), type), type, [index])
+        );
+
+        if (format === 'grpc' || format === 'grpcwebtext') {
+          const body = toGrpcBody(payloads, format === 'grpcwebtext' && options.grpcTrailers);
+          return format === 'grpc'
+            ? { grpc: uint8ArrayToHex(body), binary: body, messageCount: items.length, roundTrip }
+            : { grpcWebText: uint8ArrayToBase64(body), messageCount: items.length, roundTrip };
+        }
+
+        const writer = Writer.create();
+        messages.forEach((message) => type.encodeDelimited(message, writer));
+        const buffer = writer.finish();
+
         switch (format) {
           case 'binary':
-            return { binary: buffer };
+            return { binary: buffer, messageCount: items.length, roundTrip };
 
           case 'base64':
-            return { base64: uint8ArrayToBase64(buffer) };
+            return { base64: uint8ArrayToBase64(buffer), binary: buffer, messageCount: items.length, roundTrip };
 
           case 'hex':
-            return { hex: uint8ArrayToHex(buffer) };
-
-          case 'textproto':
-            return { textproto: messageToProtoText(message, type, 0) };
+            return { hex: uint8ArrayToHex(buffer), binary: buffer, messageCount: items.length, roundTrip };
 
           default:
-            return { error: 'Unknown format' };
+            if (isByteLiteralFormat(format)) {
+              return { literal: formatByteLiteral(buffer, format), binary: buffer, messageCount: items.length, roundTrip };
+            }
+            return { error: 'Streams can only be written as bytes: Base64, Hex, byte literals, gRPC frames or binary' };
         }
       } catch (error) {
-        let errorMessage = error instanceof Error ? error.message : 'Conversion failed';
-
-        // Add helpful context for common errors
-        if (errorMessage.includes('invalid encoding') || errorMessage.includes('Invalid encoding')) {
-          errorMessage += '\n\nNote: For bytes fields, you can enter plain text (it will be auto-converted to base64) or valid base64-encoded data.';
-        }
-
-        return { error: errorMessage };
+        return { error: describeConversionError(error) };
       }
     },
     [root, selectedMessage]
@@ -71,236 +249,282 @@ export const useConversion = (root: Root | null, selectedMessage: string | null)
         base64: convert(jsonText, 'base64'),
         hex: convert(jsonText, 'hex'),
         textproto: convert(jsonText, 'textproto'),
+        proto3json: convert(jsonText, 'proto3json'),
+        grpc: convert(jsonText, 'grpc'),
+        grpcwebtext: convert(jsonText, 'grpcwebtext'),
+        base64url: convert(jsonText, 'base64url'),
+        go: convert(jsonText, 'go'),
+        c: convert(jsonText, 'c'),
+        python: convert(jsonText, 'python'),
+        java: convert(jsonText, 'java'),
+        rust: convert(jsonText, 'rust'),
+        octal: convert(jsonText, 'octal'),
       };
     },
     [convert]
   );
 
-  return {
-    convert,
-    convertAll,
-  };
-};
+  // Decode binary protobuf into editable JSON for the selected (or given) message type
+  const decode = useCallback(
+    (buffer: Uint8Array, messageName: string | null = selectedMessage): DecodeResult => {
+      if (!root || !messageName) {
+        return { error: 'No message type selected' };
+      }
 
-// Helper functions for encoding/decoding
+      if (buffer.length === 0) {
+        return { error: 'Input is empty' };
+      }
 
-function uint8ArrayToBase64(buffer: Uint8Array): string {
-  let binary = '';
-  for (let i = 0; i < buffer.length; i++) {
-    binary += String.fromCharCode(buffer[i]);
-  }
-  return btoa(binary);
-}
-
-function uint8ArrayToHex(buffer: Uint8Array): string {
-  return Array.from(buffer)
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-}
-
-// Convert protobuf message to ProtoText format (canonical text format)
-// Based on the protocol buffers text format specification:
-// https://protobuf.dev/reference/protobuf/textformat-spec/
-function messageToProtoText(message: any, type: any, indentLevel: number = 0): string {
-  const indent = '  '.repeat(indentLevel);
-  const lines: string[] = [];
-
-  if (!message || !type.fields) {
-    return '';
-  }
+      try {
+        const type = root.lookupType(messageName);
+        const message = type.decode(buffer);
 
-  // Convert message to object first
-  const obj = typeof message.toObject === 'function' ? message.toObject() : message;
+        // Canonical proto3 JSON is accepted back by the editor
+        const obj = messageToProto3Json(message, type);
 
-  // Process each field in the message type definition
-  Object.keys(type.fields).forEach((fieldName) => {
-    const field = type.fields[fieldName];
-    const value = obj[fieldName];
+        return { json: JSON.stringify(obj, null, 2), byteLength: buffer.length };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return {
+          error: `Payload does not match ${messageName}: ${reason}\n\nNote: Check that the selected message type is the one the payload was encoded with.`,
+        };
+      }
+    },
+    [root, selectedMessage]
+  );
 
-    // Skip undefined values - they're not set
-    if (value === undefined) {
-      return;
-    }
+  // Split a length-delimited stream and decode every message on its own
+  const decodeStream = useCallback(
+    (buffer: Uint8Array, messageName: string | null = selectedMessage): StreamDecodeResult => {
+      if (!root || !messageName) {
+        return { messages: [], error: 'No message type selected' };
+      }
 
-    // Handle repeated fields
-    if (field.repeated && Array.isArray(value)) {
-      // Skip empty repeated fields
-      if (value.length === 0) {
-        return;
+      if (buffer.length === 0) {
+        return { messages: [], error: 'Input is empty' };
       }
 
-      // Output each element on its own line
-      value.forEach((item) => {
-        lines.push(formatFieldValue(fieldName, item, field, indent, indentLevel));
+      const type = root.lookupType(messageName);
+      const { frames, error } = splitDelimited(buffer);
+
+      const messages = frames.map((frame, index): StreamMessage => {
+        const entry: StreamMessage = { index, offset: frame.offset, byteLength: frame.end - frame.start };
+        try {
+          const message = type.decode(buffer.subarray(frame.start, frame.end));
+          entry.json = JSON.stringify(messageToProto3Json(message, type), null, 2);
+        } catch (decodeError) {
+          entry.error = decodeError instanceof Error ? decodeError.message : String(decodeError);
+        }
+        return entry;
       });
-      return;
-    }
 
-    // Skip zero/default values for proto3 singular fields
-    // In proto3, unset fields default to zero values and shouldn't be serialized
-    // unless explicitly set (we can't distinguish this in JS, so we skip zero values)
-    if (!field.repeated && !field.map && isDefaultValue(value, field)) {
-      // Exception: always include message types even if empty
-      if (!(field.resolvedType && typeof value === 'object' && !Array.isArray(value))) {
-        return;
+      return { messages, byteLength: buffer.length, error };
+    },
+    [root, selectedMessage]
+  );
+
+  // Split a gRPC or gRPC-Web body, decoding data frames as messages and trailer frames as headers
+  const decodeGrpc = useCallback(
+    (buffer: Uint8Array, messageName: string | null = selectedMessage): StreamDecodeResult => {
+      if (!root || !messageName) {
+        return { messages: [], error: 'No message type selected' };
       }
-    }
 
-    // Handle regular fields
-    lines.push(formatFieldValue(fieldName, value, field, indent, indentLevel));
-  });
-
-  return lines.join('\n');
-}
-
-// Format a single field value
-function formatFieldValue(
-  fieldName: string,
-  value: any,
-  field: any,
-  indent: string,
-  indentLevel: number
-): string {
-  // Handle enum fields - output symbolic name instead of number
-  if (field.resolvedType && (field.resolvedType as any).values !== undefined) {
-    const enumType = field.resolvedType as any;
-    const enumName = getEnumName(value, enumType);
-    return `${indent}${fieldName}: ${enumName}`;
-  }
+      if (buffer.length === 0) {
+        return { messages: [], error: 'Input is empty' };
+      }
 
-  // Handle nested message fields
-  if (field.resolvedType && typeof value === 'object' && !Array.isArray(value)) {
-    const nestedText = messageToProtoText(value, field.resolvedType, indentLevel + 1);
-    if (nestedText) {
-      return `${indent}${fieldName}: {\n${nestedText}\n${indent}}`;
-    }
-    return `${indent}${fieldName}: {}`;
-  }
+      const type = root.lookupType(messageName);
+      const { frames, error } = splitGrpcFrames(buffer);
 
-  // Handle bytes fields (they come as Uint8Array or base64 string from protobufjs)
-  if (field.type === 'bytes') {
-    // Convert bytes to string representation
-    let bytesStr: string;
-    if (typeof value === 'string') {
-      bytesStr = value;
-    } else if (value instanceof Uint8Array) {
-      // Convert Uint8Array to string
-      bytesStr = new TextDecoder('utf-8', { fatal: false }).decode(value);
-    } else {
-      bytesStr = String(value);
-    }
-    return `${indent}${fieldName}: ${escapeString(bytesStr)}`;
-  }
+      const messages = frames.map((frame, index): StreamMessage => {
+        const entry: StreamMessage = { index, offset: frame.offset, byteLength: frame.end - frame.start };
+        const payload = buffer.subarray(frame.start, frame.end);
 
-  // Handle primitive fields
-  if (typeof value === 'string') {
-    return `${indent}${fieldName}: ${escapeString(value)}`;
-  }
+        if (frame.trailer) {
+          entry.trailers = parseGrpcTrailers(payload);
+          return entry;
+        }
+        if (frame.compressed) {
+          entry.compressed = true;
+          entry.error = 'Compressed frames are not supported';
+          return entry;
+        }
 
-  if (typeof value === 'boolean') {
-    return `${indent}${fieldName}: ${value ? 'true' : 'false'}`;
-  }
+        try {
+          entry.json = JSON.stringify(messageToProto3Json(type.decode(payload), type), null, 2);
+        } catch (decodeError) {
+          entry.error = decodeError instanceof Error ? decodeError.message : String(decodeError);
+        }
+        return entry;
+      });
 
-  // Numbers, etc.
-  return `${indent}${fieldName}: ${value}`;
-}
+      return { messages, byteLength: buffer.length, error };
+    },
+    [root, selectedMessage]
+  );
 
-// Check if a value is the default/zero value for its field type
-function isDefaultValue(value: any, field: any): boolean {
-  // null is always considered default
-  if (value === null) {
-    return true;
-  }
+  // Decode a Confluent Schema Registry record with the message its indexes point to,
+  // looked up in the file that declares the selected message
+  const decodeConfluent = useCallback(
+    (buffer: Uint8Array): ConfluentDecodeResult => {
+      if (!root || !selectedMessage) {
+        return { error: 'No message type selected' };
+      }
 
-  // Check based on field type
-  if (field.resolvedType) {
-    // Enum: check if it's the first enum value (usually 0)
-    if ((field.resolvedType as any).values !== undefined) {
-      const enumType = field.resolvedType as any;
-      const firstValue = Object.values(enumType.values)[0];
-      return value === firstValue || value === 0;
-    }
-    // Message types are never considered "default" - always serialize them
-    return false;
-  }
+      let envelope;
+      let messageName: string;
+      try {
+        envelope = parseConfluentEnvelope(buffer);
+        const location = findMessageIndexes(loadedFiles, selectedMessage);
+        if (!location) {
+          return { error: `None of the loaded files declares ${selectedMessage}, the message indexes can't be resolved` };
+        }
+        messageName = resolveMessageIndexes(loadedFiles.get(location.fileName)!, envelope.messageIndexes);
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
 
-  // Primitive types
-  switch (field.type) {
-    case 'bool':
-      return value === false;
-    case 'string':
-    case 'bytes':
-      return value === '' || value === null;
-    case 'double':
-    case 'float':
-    case 'int32':
-    case 'int64':
-    case 'uint32':
-    case 'uint64':
-    case 'sint32':
-    case 'sint64':
-    case 'fixed32':
-    case 'fixed64':
-    case 'sfixed32':
-    case 'sfixed64':
-      return value === 0 || value === '0';
-    default:
-      return false;
-  }
-}
+      const { schemaId, messageIndexes } = envelope;
+      const decoded = decode(buffer.subarray(envelope.payloadStart), messageName);
+      return { ...decoded, schemaId, messageIndexes, messageName };
+    },
+    [root, selectedMessage, loadedFiles, decode]
+  );
 
-// Get enum symbolic name from numeric value
-function getEnumName(value: number | string, enumType: any): string {
-  // If already a string, return as-is
-  if (typeof value === 'string') {
-    return value;
-  }
+  // Parse ProtoText into JSON for the selected message type
+  const parseText = useCallback(
+    (text: string): DecodeResult => {
+      if (!root || !selectedMessage) {
+        return { error: 'No message type selected' };
+      }
 
-  // Find the enum name for this numeric value
-  const entries = Object.entries(enumType.values);
-  for (const [name, num] of entries) {
-    if (num === value) {
-      return name;
-    }
-  }
+      try {
+        const type = root.lookupType(selectedMessage);
+        const obj = parseProtoText(text, type);
 
-  // Fallback to numeric value if name not found
-  return String(value);
-}
-
-// Escape string for prototext format
-// Implements proper escaping according to protobuf text format spec
-function escapeString(str: string): string {
-  let escaped = '';
-  for (let i = 0; i < str.length; i++) {
-    const char = str[i];
-    const code = str.charCodeAt(i);
-
-    switch (char) {
-      case '"':
-        escaped += '\\"';
-        break;
-      case '\\':
-        escaped += '\\\\';
-        break;
-      case '\n':
-        escaped += '\\n';
-        break;
-      case '\r':
-        escaped += '\\r';
-        break;
-      case '\t':
-        escaped += '\\t';
-        break;
-      default:
-        // Check for non-printable ASCII or invalid UTF-8
-        if (code < 32 || code > 126) {
-          // Escape as hex for non-ASCII characters
-          escaped += '\\x' + code.toString(16).padStart(2, '0');
-        } else {
-          escaped += char;
+        // Round-trip through a message so the editor gets canonical proto3 JSON
+        const normalizedObj = normalizeMessage(obj, type);
+        const verifyError = type.verify(normalizedObj);
+        if (verifyError) {
+          return { error: `Validation error: ${verifyError}` };
         }
-    }
-  }
-  return `"${escaped}"`;
-}
\ No newline at end of file
+        const message = type.fromObject(normalizedObj);
+        return { json: JSON.stringify(messageToProto3Json(message, type), null, 2) };
+      } catch (error) {
+        if (error instanceof ProtoTextParseError) {
+          return { error: error.message, errorLocation: { line: error.line, column: error.column } };
+        }
+        return { error: error instanceof Error ? error.message : 'Failed to parse ProtoText' };
+      }
+    },
+    [root, selectedMessage]
+  );
+
+  // Rank candidate message types by how well they fit an unknown payload
+  const detectTypes = useCallback(
+    (buffer: Uint8Array, messageNames: string[]): TypeCandidate[] => {
+      if (!root) {
+        throw new Error('No .proto files loaded');
+      }
+      if (buffer.length === 0) {
+        throw new Error('Input is empty');
+      }
+      return detectMessageTypes(buffer, root, messageNames);
+    },
+    [root]
+  );
+
+  // Break the encoded size of the editor's message down by field
+  const analyzeSize = useCallback(
+    (jsonText: string): SizeAnalysisResult => {
+      if (!root || !selectedMessage) {
+        return { error: 'No message type selected' };
+      }
+
+      try {
+        const type = root.lookupType(selectedMessage);
+        const obj = JSON.parse(jsonText);
+        if (Array.isArray(obj)) {
+          return { error: 'The editor holds a list of messages, sizes are broken down for a single message' };
+        }
+
+        const message = jsonToMessage(obj, type);
+        const buffer = type.encode(message).finish();
+        return {
+          fields: buildSizeTree(annotateWireFormat(buffer, type)),
+          binary: buffer,
+          json: JSON.stringify(messageToProto3Json(message, type)),
+        };
+      } catch (error) {
+        return { error: describeConversionError(error) };
+      }
+    },
+    [root, selectedMessage]
+  );
+
+  // Decode both sides with the selected message type and diff them field by field
+  const compare = useCallback(
+    (before: CompareInput, after: CompareInput, editorJson: string): CompareResult => {
+      if (!root || !selectedMessage) {
+        return { error: 'No message type selected' };
+      }
+
+      const type = root.lookupType(selectedMessage);
+
+      // JSON sides are encoded with the type they were written for, then read like any payload
+      const toBuffer = (input: CompareInput, label: string): Uint8Array => {
+        if (input.kind === 'payload') {
+          if (input.buffer.length === 0) {
+            throw new Error(`${label}: Input is empty`);
+          }
+          return input.buffer;
+        }
+        const messageName = input.kind === 'saved' ? input.messageName : selectedMessage;
+        const json = input.kind === 'saved' ? input.json : editorJson;
+        try {
+          const sourceType = root.lookupType(messageName);
+          return sourceType.encode(jsonToMessage(JSON.parse(json), sourceType)).finish();
+        } catch (error) {
+          throw new Error(`${label} (${messageName}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+      };
+
+      const toJson = (buffer: Uint8Array, label: string): Record<string, unknown> => {
+        try {
+          return messageToProto3Json(type.decode(buffer), type);
+        } catch (error) {
+          throw new Error(
+            `${label} does not match ${selectedMessage}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      };
+
+      try {
+        const beforeBuffer = toBuffer(before, 'Before');
+        const afterBuffer = toBuffer(after, 'After');
+        return {
+          changes: diffJson(toJson(beforeBuffer, 'Before'), toJson(afterBuffer, 'After')),
+          byteLengths: [beforeBuffer.length, afterBuffer.length],
+        };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : 'Comparison failed' };
+      }
+    },
+    [root, selectedMessage]
+  );
+
+  return {
+    convert,
+    convertAll,
+    convertStream,
+    decode,
+    decodeStream,
+    decodeGrpc,
+    decodeConfluent,
+    parseText,
+    detectTypes,
+    compare,
+    analyzeSize,
+  };
+};
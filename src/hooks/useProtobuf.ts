@@ -1,8 +1,14 @@
-import { useState, useCallback } from 'react';
-import { parse, Type, Field, Root } from 'protobufjs';
-import type { ProtoState, ValidationResult, JsonSchema, MessageContext } from '../types/proto';
+import { useState, useCallback, useMemo } from 'react';
+import { parse, Type, Field, MapField, Enum, Root, Namespace } from 'protobufjs';
+import type { ProtoState, ProtoBaseline, ProtoDiagnostic, ValidationResult, JsonSchema, MessageContext } from '../types/proto';
 import { generateFullProtoDefinition } from '../utils/generateProtoDefinition';
-import { normalizeEnumValues } from '../utils/normalizeEnumValues';
+import { normalizeMessage } from '../utils/normalizeMessage';
+import { fromProto3Json, jsonNameOf, TYPE_URL_PREFIX } from '../utils/proto3Json';
+import { parseMessageList } from '../utils/messageStream';
+import { lintProtoFiles } from '../utils/protoLint';
+import { buildProtoIndex } from '../utils/protoNavigation';
+import { locateProtoParseError } from '../utils/protoParseErrors';
+import { attachTrailingComments, getComments, getEnumValueComments, getSourceName } from '../utils/protoComments';
 
 export const newRoot = (): Promise<Root> => {
   return new Root().load([
@@ -152,7 +158,29 @@ export const useProtobuf = () => {
     unresolvedImports: [],
     mainFile: null,
     messageContext: null,
+    diagnostics: [],
   });
+  // Earlier version of the proto files, checked against the loaded ones for breaking changes
+  const [baseline, setBaseline] = useState<ProtoBaseline | null>(null);
+  // Lint rules switched off by the user
+  const [disabledLintRules, setDisabledLintRules] = useState<Set<string>>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('disabledLintRules') || '[]');
+      return new Set(Array.isArray(saved) ? (saved as string[]) : []);
+    } catch (error) {
+      console.error('Failed to restore disabled lint rules:', error);
+      return new Set();
+    }
+  });
+
+  // Style problems in the loaded files, re-checked whenever they change
+  const lintProblems = useMemo(
+    () => lintProtoFiles(state.loadedFiles, disabledLintRules),
+    [state.loadedFiles, disabledLintRules]
+  );
+
+  // Where types are declared and which fields use them, for go-to-definition and find usages
+  const protoIndex = useMemo(() => buildProtoIndex(state.loadedFiles), [state.loadedFiles]);
 
   // Общая функция для парсинга файлов
   const parseFiles = useCallback(
@@ -188,15 +216,19 @@ export const useProtobuf = () => {
       };
 
       // Парсим все загруженные файлы
+      // A file that fails to parse is recorded and skipped, the others still load
+      const diagnostics: ProtoDiagnostic[] = [];
       for (const [path, content] of filesMap.entries()) {
         console.log(`[parseFiles] Parsing file: ${path}`);
         try {
-          parse(content, root, { keepCase: false });
+          parse(content, root, { keepCase: false, alternateCommentMode: true });
           console.log(`[parseFiles] ✅ Successfully parsed: ${path}`);
         } catch (parseError) {
-          console.error(`[parseFiles] ❌ Failed to parse ${path}:`, parseError);
+          const { message, location } = locateProtoParseError(parseError, content);
+          diagnostics.push({ file: path, line: location?.line ?? 1, column: location?.column ?? 1, message });
         }
       }
+      attachTrailingComments(root, filesMap);
 
       // Извлекаем сообщения
       const messages: string[] = [];
@@ -237,6 +269,7 @@ export const useProtobuf = () => {
         unresolvedImports: unresolved,
         mainFile: mainFileName,
         messageContext: messageCtx,
+        diagnostics,
       };
     },
     []
@@ -280,7 +313,8 @@ export const useProtobuf = () => {
     try {
       const root = await newRoot();
 
-      parse(text, root, { keepCase: false });
+      parse(text, root, { keepCase: false, alternateCommentMode: true });
+      attachTrailingComments(root, new Map([['', text]]));
 
       console.log("Parsed options", root.parsedOptions, root, text);
 
@@ -317,6 +351,7 @@ export const useProtobuf = () => {
         unresolvedImports: [],
         mainFile: 'text-input.proto',
         messageContext: messageCtx,
+        diagnostics: [],
       });
 
       localStorage.setItem('lastProtoFile', text);
@@ -353,16 +388,14 @@ export const useProtobuf = () => {
 
       try {
         const type = state.root.lookupType(state.selectedMessage);
-        const obj = JSON.parse(jsonText);
+        // A JSON array or JSON Lines holds the messages of a length-delimited stream
+        const messages = parseMessageList(jsonText);
 
-        // Convert enum string values to numbers for validation
-        // protobufjs verify() expects numeric enum values
-        const normalizedObj = normalizeEnumValues(obj, type);
-
-        const error = type.verify(normalizedObj);
-
-        if (error) {
-          return { valid: false, error };
+        for (const [index, obj] of messages.entries()) {
+          const error = validateMessageObject(obj, type);
+          if (error) {
+            return { valid: false, error: messages.length > 1 ? `Message ${index}: ${error}` : error };
+          }
         }
 
         return { valid: true };
@@ -387,7 +420,13 @@ export const useProtobuf = () => {
         const type = state.root.lookupType(targetMessage);
         // Track visited types to prevent infinite recursion
         const visitedTypes = new Set<string>();
-        return convertTypeToJsonSchema(type, undefined, visitedTypes);
+        const schema = convertTypeToJsonSchema(type, undefined, visitedTypes);
+
+        // Packed Any values are validated and completed against the loaded message types
+        if (referencesAny(type)) {
+          schema.definitions = getAnyDefinitions(state.root);
+        }
+        return schema;
       } catch (error) {
         console.error('Failed to generate JSON schema:', error);
         return null;
@@ -406,6 +445,7 @@ export const useProtobuf = () => {
       unresolvedImports: [],
       mainFile: null,
       messageContext: null,
+      diagnostics: [],
     });
     localStorage.removeItem('protoFiles');
     localStorage.removeItem('mainFile');
@@ -413,9 +453,64 @@ export const useProtobuf = () => {
     localStorage.removeItem('lastFileName');
   }, []);
 
+  const loadBaseline = useCallback(
+    async (filesMap: Map<string, string>) => {
+      const parsed = await parseFiles(filesMap, null, null);
+      setBaseline({ root: parsed.root, loadedFiles: filesMap });
+      localStorage.setItem('baselineProtoFiles', JSON.stringify(Array.from(filesMap.entries())));
+    },
+    [parseFiles]
+  );
+
+  const loadBaselineFiles = useCallback(
+    async (files: File[]) => {
+      // Baseline files take the path of the loaded file with the same name, so imports resolve the same way
+      const loadedPaths = Array.from(state.loadedFiles.keys());
+      const filesMap = new Map<string, string>();
+      for (const file of files) {
+        const path = loadedPaths.find((loaded) => loaded === file.name || loaded.endsWith(`/${file.name}`));
+        filesMap.set(path ?? file.name, await file.text());
+      }
+      await loadBaseline(filesMap);
+    },
+    [state.loadedFiles, loadBaseline]
+  );
+
+  // Keep the loaded files as the baseline before editing or replacing them
+  const snapshotBaseline = useCallback(async () => {
+    await loadBaseline(new Map(state.loadedFiles));
+  }, [state.loadedFiles, loadBaseline]);
+
+  const clearBaseline = useCallback(() => {
+    setBaseline(null);
+    localStorage.removeItem('baselineProtoFiles');
+  }, []);
+
+  const toggleLintRule = useCallback((rule: string, enabled: boolean) => {
+    setDisabledLintRules((current) => {
+      const next = new Set(current);
+      if (enabled) {
+        next.delete(rule);
+      } else {
+        next.add(rule);
+      }
+      localStorage.setItem('disabledLintRules', JSON.stringify(Array.from(next)));
+      return next;
+    });
+  }, []);
+
   const loadFromLocalStorage = useCallback(async () => {
     const savedFiles = localStorage.getItem('protoFiles');
     const savedMainFile = localStorage.getItem('mainFile');
+    const savedBaseline = localStorage.getItem('baselineProtoFiles');
+
+    if (savedBaseline) {
+      try {
+        await loadBaseline(new Map(JSON.parse(savedBaseline) as [string, string][]));
+      } catch (error) {
+        console.error('Failed to restore baseline proto files:', error);
+      }
+    }
 
     if (savedFiles) {
       try {
@@ -434,7 +529,7 @@ export const useProtobuf = () => {
         }
       }
     }
-  }, [parseFiles, loadProtoFromText]);
+  }, [parseFiles, loadProtoFromText, loadBaseline]);
 
   const removeFile = useCallback(
     async (filePath: string) => {
@@ -472,6 +567,7 @@ export const useProtobuf = () => {
             unresolvedImports: [],
             mainFile: null,
             messageContext: null,
+            diagnostics: [],
           });
           localStorage.removeItem('protoFiles');
           localStorage.removeItem('mainFile');
@@ -514,6 +610,38 @@ export const useProtobuf = () => {
     [state.loadedFiles, state.mainFile, state.selectedMessage, parseFiles]
   );
 
+  // Replace the content of a loaded file after it was edited, keeping its place and the main file
+  const updateFile = useCallback(
+    async (filePath: string, content: string) => {
+      try {
+        const newLoadedFiles = new Map(state.loadedFiles);
+        newLoadedFiles.set(filePath, content);
+
+        const newState = await parseFiles(newLoadedFiles, state.mainFile, state.selectedMessage);
+
+        // A message renamed or removed by the edit can't stay selected
+        if (newState.selectedMessage && !newState.availableMessages.includes(newState.selectedMessage)) {
+          const fallback = newState.availableMessages[0] ?? null;
+          newState.selectedMessage = fallback;
+          newState.messageContext = fallback ? extractMessageContext(newState.root, fallback, newLoadedFiles) : null;
+        }
+
+        setState(newState);
+
+        localStorage.setItem(
+          'protoFiles',
+          JSON.stringify(Array.from(newLoadedFiles.entries()))
+        );
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          error: error instanceof Error ? error.message : 'Failed to parse .proto file',
+        }));
+      }
+    },
+    [state.loadedFiles, state.mainFile, state.selectedMessage, parseFiles]
+  );
+
   const getMessageDefinition = useCallback(
     (messageName?: string): string | null => {
       if (!state.root) return null;
@@ -543,9 +671,122 @@ export const useProtobuf = () => {
     clearProto,
     loadFromLocalStorage,
     removeFile,
+    updateFile,
+    baseline,
+    loadBaselineFiles,
+    snapshotBaseline,
+    clearBaseline,
+    lintProblems,
+    disabledLintRules,
+    toggleLintRule,
+    protoIndex,
   };
 };
 
+// Helper function to validate one message object, returns the verify error if any
+function validateMessageObject(obj: unknown, type: Type): string | null {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    return `Expected a JSON object for ${type.name}`;
+  }
+
+  // Map canonical proto3 JSON (int64 strings, Timestamp strings...) to protobufjs objects
+  const protoObj = fromProto3Json(obj, type);
+
+  // Same normalization as conversion: protobufjs verify() expects numeric enums and base64 bytes
+  const normalizedObj = normalizeMessage(protoObj, type);
+
+  return type.verify(normalizedObj);
+}
+
+const LONG_SCHEMA_TYPES = new Set(['int64', 'uint64', 'sint64', 'fixed64', 'sfixed64']);
+
+// Schemas for well-known types following the canonical proto3 JSON mapping
+const WELL_KNOWN_TYPE_SCHEMAS: Record<string, JsonSchema> = {
+  Int64Value: { type: ['string', 'integer'], pattern: '^-?\\d+$', description: 'int64 wrapper as a string' },
+  UInt64Value: { type: ['string', 'integer'], pattern: '^\\d+$', description: 'uint64 wrapper as a string' },
+  Timestamp: { type: 'string', format: 'date-time', description: 'RFC 3339 date, e.g. "2024-01-15T10:30:00Z"' },
+  Duration: { type: 'string', pattern: '^-?\\d+(\\.\\d{1,9})?s$', description: 'Seconds with an "s" suffix, e.g. "1.5s"' },
+  FieldMask: { type: 'string', description: 'Comma-separated camelCase paths, e.g. "user.displayName,photo"' },
+  Struct: { type: 'object', description: 'Any JSON object' },
+  Value: { description: 'Any JSON value' },
+  ListValue: { type: 'array', description: 'Any JSON array' },
+};
+
+// Any schemas and the message definitions they reference, built once per loaded root
+const anySchemaCache = new WeakMap<Root, JsonSchema>();
+const anyDefinitionsCache = new WeakMap<Root, Record<string, JsonSchema>>();
+
+// Helper function to list every message type that can be packed into an Any
+function collectAnyTypeNames(namespace: Namespace, names: string[] = []): string[] {
+  namespace.nestedArray.forEach((item) => {
+    if (item instanceof Type && item.fullName !== '.google.protobuf.Any') {
+      names.push(item.fullName.replace(/^\./, ''));
+    }
+    if (item instanceof Namespace) {
+      collectAnyTypeNames(item, names);
+    }
+  });
+  return names;
+}
+
+// Any accepts "@type" plus the fields of the named message, matched with if/then for every loaded type
+function convertAnyToJsonSchema(root: Root): JsonSchema {
+  const cached = anySchemaCache.get(root);
+  if (cached) return cached;
+
+  const names = collectAnyTypeNames(root);
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      '@type': {
+        type: 'string',
+        examples: names.map((name) => `${TYPE_URL_PREFIX}${name}`),
+        description: `Type URL, e.g. "${TYPE_URL_PREFIX}package.Message"`,
+      },
+    },
+    allOf: names.map((name) => ({
+      if: { properties: { '@type': { const: `${TYPE_URL_PREFIX}${name}` } }, required: ['@type'] },
+      then: { $ref: `#/definitions/${name}` },
+    })),
+    description: 'google.protobuf.Any: packed message with an "@type" URL',
+  };
+
+  anySchemaCache.set(root, schema);
+  return schema;
+}
+
+// Helper function to build the definitions referenced by Any schemas
+function getAnyDefinitions(root: Root): Record<string, JsonSchema> {
+  const cached = anyDefinitionsCache.get(root);
+  if (cached) return cached;
+
+  const definitions: Record<string, JsonSchema> = {};
+  collectAnyTypeNames(root).forEach((name) => {
+    const type = root.lookupType(name);
+    // Well-known types with a special JSON form go under "value"
+    const wellKnownSchema = name.startsWith('google.protobuf.') ? WELL_KNOWN_TYPE_SCHEMAS[type.name] : undefined;
+    definitions[name] = wellKnownSchema
+      ? { type: 'object', properties: { value: wellKnownSchema } }
+      : convertTypeToJsonSchema(type, undefined, new Set<string>());
+  });
+
+  anyDefinitionsCache.set(root, definitions);
+  return definitions;
+}
+
+// Helper function to check whether a message (or any message nested in it) has an Any field
+function referencesAny(type: Type, visited = new Set<Type>()): boolean {
+  if (visited.has(type)) return false;
+  visited.add(type);
+  type.resolveAll();
+
+  return type.fieldsArray.some((field) => {
+    const resolvedType = field.resolvedType;
+    if (!(resolvedType instanceof Type)) return false;
+    return resolvedType.fullName === '.google.protobuf.Any' || referencesAny(resolvedType, visited);
+  });
+}
+
 // Helper function to convert protobuf Type to JSON Schema
 function convertTypeToJsonSchema(type: Type, root?: any, visitedTypes?: Set<string>): JsonSchema {
   // Initialize visitedTypes if not provided (for backward compatibility)
@@ -574,6 +815,12 @@ function convertTypeToJsonSchema(type: Type, root?: any, visitedTypes?: Set<stri
     required: [],
   };
 
+  // Message comments from the .proto source
+  const comments = getComments(type);
+  if (comments.length > 0) {
+    schema.description = comments.join('\n\n');
+  }
+
   // Track which fields are part of oneof groups
   const oneofFields = new Set<string>();
 
@@ -587,18 +834,16 @@ function convertTypeToJsonSchema(type: Type, root?: any, visitedTypes?: Set<stri
 
       // For each field in the oneof, add it to properties with a special description
       oneof.fieldsArray.forEach((field) => {
-        const fieldSchema = convertFieldToJsonSchema(field, type.parent || root, visitedTypes);
-
         // Add description indicating this is part of a oneof group
         const oneofDescription = `[oneof ${oneof.name}] Only one field from this group can be set`;
-        if (fieldSchema.description) {
-          fieldSchema.description = `${oneofDescription}. ${fieldSchema.description}`;
-        } else {
-          fieldSchema.description = oneofDescription;
-        }
+        const fieldSchema = documentFieldSchema(
+          field,
+          convertFieldToJsonSchema(field, type.parent || root, visitedTypes),
+          oneofDescription
+        );
 
         if (schema.properties) {
-          schema.properties[field.name] = fieldSchema;
+          schema.properties[jsonNameOf(field)] = fieldSchema;
         }
       });
     });
@@ -608,13 +853,13 @@ function convertTypeToJsonSchema(type: Type, root?: any, visitedTypes?: Set<stri
   Object.values(type.fields).forEach((field: Field) => {
     // Skip fields that are part of oneof groups (already processed above)
     if (!oneofFields.has(field.name)) {
-      const fieldSchema = convertFieldToJsonSchema(field, type.parent || root, visitedTypes);
+      const fieldSchema = documentFieldSchema(field, convertFieldToJsonSchema(field, type.parent || root, visitedTypes));
       if (schema.properties) {
-        schema.properties[field.name] = fieldSchema;
+        schema.properties[jsonNameOf(field)] = fieldSchema;
       }
 
       if (field.required && schema.required) {
-        schema.required.push(field.name);
+        schema.required.push(jsonNameOf(field));
       }
     }
   });
@@ -629,6 +874,35 @@ function convertTypeToJsonSchema(type: Type, root?: any, visitedTypes?: Set<stri
   return schema;
 }
 
+// Helper function to document a field schema with its proto comments, declaration and deprecation
+// Returns a copy: converted schemas can be shared (Any) and must not be changed
+function documentFieldSchema(field: Field, fieldSchema: JsonSchema, note?: string): JsonSchema {
+  const deprecated = field.options?.deprecated === true;
+  const label = field.repeated ? 'repeated ' : field.options?.proto3_optional ? 'optional ' : '';
+  const fieldType = field instanceof MapField ? `map<${field.keyType}, ${field.type}>` : field.type;
+  // As written in the .proto file, with the JSON key when it isn't the field name
+  const sourceName = getSourceName(field);
+  const jsonName = jsonNameOf(field);
+  const declaration = `${label}${fieldType} ${sourceName} = ${field.id}${jsonName !== sourceName ? ` (json: "${jsonName}")` : ''}`;
+  const comments = getComments(field);
+  const details = [note, fieldSchema.description].filter(Boolean).join('. ');
+
+  const documented: JsonSchema = {
+    ...fieldSchema,
+    description: [...comments, deprecated ? `${declaration} (deprecated)` : declaration, details].filter(Boolean).join('\n\n'),
+    markdownDescription: [
+      ...comments,
+      '`' + declaration + '`',
+      details,
+      deprecated ? '**Deprecated**' : '',
+    ].filter(Boolean).join('\n\n'),
+  };
+  if (deprecated) {
+    documented.deprecationMessage = `${sourceName} is deprecated`;
+  }
+  return documented;
+}
+
 function convertFieldToJsonSchema(field: Field, root?: any, visitedTypes?: Set<string>): JsonSchema {
   // Handle repeated fields
   if (field.repeated) {
@@ -650,20 +924,24 @@ function convertFieldTypeToJsonSchema(field: Field, root?: any, visitedTypes?: S
     double: 'number',
     float: 'number',
     int32: 'integer',
-    int64: 'integer',
     uint32: 'integer',
-    uint64: 'integer',
     sint32: 'integer',
-    sint64: 'integer',
     fixed32: 'integer',
-    fixed64: 'integer',
     sfixed32: 'integer',
-    sfixed64: 'integer',
     bool: 'boolean',
     string: 'string',
     bytes: 'string',
   };
 
+  // 64-bit integers are written as strings in proto3 JSON, numbers are still accepted
+  if (LONG_SCHEMA_TYPES.has(protoType)) {
+    return {
+      type: ['string', 'integer'],
+      pattern: '^-?\\d+$',
+      description: `Type: ${protoType} (string in proto3 JSON)`,
+    };
+  }
+
   if (typeMap[protoType]) {
     return {
       type: typeMap[protoType],
@@ -674,13 +952,20 @@ function convertFieldTypeToJsonSchema(field: Field, root?: any, visitedTypes?: S
   // Try to resolve nested message types
   if (field.resolvedType) {
     const resolvedType = field.resolvedType;
-    const fullName = (resolvedType as any).fullName || protoType;
+    // Resolved full names start with a dot (.google.protobuf.Timestamp)
+    const fullName = ((resolvedType as any).fullName || protoType).replace(/^\./, '');
 
     // Check if it's an Enum
-    if ((resolvedType as any).values !== undefined) {
-      const enumObj = (resolvedType as any).values;
+    if (resolvedType instanceof Enum) {
+      const enumObj = resolvedType.values;
       const enumNames = Object.keys(enumObj);
       const enumNumbers = Object.values(enumObj);
+      // Shown next to each value in completion and hover, with the value comments
+      const valueDocs = enumNames.map((name) => [`${name} = ${enumObj[name]}`, ...getEnumValueComments(resolvedType, name)]);
+      const enumDescriptions = valueDocs.map((doc) => doc.join('\n'));
+      const markdownEnumDescriptions = valueDocs.map(([signature, ...comments]) =>
+        ['`' + signature + '`', ...comments].join('\n\n')
+      );
 
       // Protobuf JSON allows both string names and numeric values for enums
       // Create a schema that accepts either
@@ -690,11 +975,15 @@ function convertFieldTypeToJsonSchema(field: Field, root?: any, visitedTypes?: S
             type: 'integer',
             enum: enumNumbers,
             description: `Enum numeric value: ${protoType}`,
+            enumDescriptions,
+            markdownEnumDescriptions,
           },
           {
             type: 'string',
             enum: enumNames,
             description: `Enum string value: ${protoType}`,
+            enumDescriptions,
+            markdownEnumDescriptions,
           },
         ],
         description: `Enum: ${protoType} (accepts both string names and numeric values)`,
@@ -710,9 +999,7 @@ function convertFieldTypeToJsonSchema(field: Field, root?: any, visitedTypes?: S
         const wrapperTypeMap: Record<string, string> = {
           'StringValue': 'string',
           'Int32Value': 'integer',
-          'Int64Value': 'integer',
           'UInt32Value': 'integer',
-          'UInt64Value': 'integer',
           'FloatValue': 'number',
           'DoubleValue': 'number',
           'BoolValue': 'boolean',
@@ -728,8 +1015,15 @@ function convertFieldTypeToJsonSchema(field: Field, root?: any, visitedTypes?: S
         }
       }
 
-      // Other well-known types like Timestamp, Duration, etc.
-      // For now treat as objects
+      if (typeName === 'Any') {
+        return convertAnyToJsonSchema(resolvedType.root as Root);
+      }
+
+      // Other well-known types with a special proto3 JSON representation
+      const wellKnownSchema = WELL_KNOWN_TYPE_SCHEMAS[typeName];
+      if (wellKnownSchema) {
+        return { ...wellKnownSchema, description: `${fullName}: ${wellKnownSchema.description}` };
+      }
     }
 
     // It's a nested message type - recursively convert it
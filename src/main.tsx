@@ -1,6 +1,7 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
+import './utils/protobufConfig'
 import App from './App.tsx'
 import { ThemeProvider } from './contexts/ThemeContext'
 
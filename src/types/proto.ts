@@ -15,6 +15,61 @@ export interface ProtoState {
   unresolvedImports: string[]; // список недостающих импортов
   mainFile: string | null; // имя главного файла
   messageContext: MessageContext | null; // контекст выбранного сообщения
+  diagnostics: ProtoDiagnostic[]; // ошибки разбора файлов
+}
+
+// A loaded .proto file that failed to parse, at the position of the error
+export interface ProtoDiagnostic {
+  file: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+// Earlier version of the loaded proto files, compared against them for breaking changes
+export interface ProtoBaseline {
+  root: Root;
+  loadedFiles: Map<string, string>;
+}
+
+// A change between two schema versions that breaks existing payloads, named after the `buf breaking` rule
+export interface BreakingChange {
+  rule: string;
+  category: 'wire' | 'json';
+  location: string; // full name of the field or enum value
+  message: string;
+}
+
+// A style problem found by the proto linter
+export interface LintProblem {
+  file: string;
+  line: number; // 1-based
+  rule: string;
+  message: string;
+  typeName?: string; // full name of the message or enum it belongs to
+}
+
+// Where a message or enum is declared in the loaded files
+export interface ProtoDefinition {
+  fullName: string;
+  kind: 'message' | 'enum';
+  file: string;
+  line: number; // 1-based
+  column: number; // 1-based, start of the name
+}
+
+// A field whose type is a message or enum of the loaded files
+export interface ProtoTypeReference {
+  typeName: string; // full name of the referenced type
+  field: string; // full name of the field, as written
+  file: string;
+  line: number;
+  column: number; // start of the type name
+}
+
+export interface ProtoIndex {
+  definitions: Map<string, ProtoDefinition>; // by full name
+  references: ProtoTypeReference[];
 }
 
 export interface ValidationResult {
@@ -22,15 +77,164 @@ export interface ValidationResult {
   error?: string;
 }
 
+// Location of a value inside a JSON document: object keys and array indexes
+export type JsonPath = (string | number)[];
+
+// A byte range [start, end) inside an encoded buffer
+export type ByteRange = [number, number];
+
+// An encoded field mapped back to its place in the message
+export interface WireFieldAnnotation {
+  path: JsonPath;
+  fieldName: string | null; // null for fields unknown to the schema
+  fieldNumber: number;
+  wireType: number;
+  tag: ByteRange;
+  length?: ByteRange; // length-delimited fields only
+  value: ByteRange;
+  packed?: boolean; // packed repeated scalars share a single tag
+  children?: WireFieldAnnotation[]; // nested message fields
+}
+
+// Bytes one field contributes to an encoded message, summed over its occurrences
+export interface FieldSize {
+  name: string; // field name, or #number for fields unknown to the schema
+  fieldNumber: number;
+  count: number; // occurrences: repeated elements, map entries or nested messages
+  bytes: number; // tag, length prefix and value
+  overhead: number; // tag and length prefix bytes
+  children: FieldSize[]; // fields of nested messages and map entries, largest first
+}
+
+export interface SizeAnalysisResult {
+  fields?: FieldSize[];
+  binary?: Uint8Array;
+  json?: string; // compact proto3 JSON of the same message
+  error?: string;
+}
+
+// Payload compression: gzip or zlib, which HTTP calls "deflate"
+export type CompressionFormat = 'gzip' | 'deflate';
+
+// Something in the input JSON that doesn't survive encoding and decoding again
+export interface RoundTripIssue {
+  path: JsonPath; // keys as written in the input
+  kind: 'unknown-field' | 'unknown-enum' | 'float-precision' | 'bytes-as-text' | 'bytes-as-base64' | 'integer-range' | 'value-changed';
+  message: string;
+}
+
 export interface ConversionResult {
   binary?: Uint8Array;
   base64?: string;
   hex?: string;
   textproto?: string;
+  proto3json?: string;
+  grpc?: string;
+  grpcWebText?: string;
+  literal?: string; // byte literal formats
+  annotations?: WireFieldAnnotation[];
+  /** Number of messages in a length-delimited stream */
+  messageCount?: number;
+  /** Set when the binary output was compressed, binary/base64/hex hold the compressed bytes */
+  compression?: { format: CompressionFormat; uncompressedLength: number };
+  /** Differences between the input and the decoded output, empty when the round trip is exact */
+  roundTrip?: RoundTripIssue[];
   error?: string;
 }
 
-export type OutputFormat = 'binary' | 'base64' | 'hex' | 'textproto';
+// Bytes written as source code (or URL-safe base64) for pasting into tests
+export type ByteLiteralFormat = 'base64url' | 'go' | 'c' | 'python' | 'java' | 'rust' | 'octal';
+
+export type OutputFormat =
+  | 'binary'
+  | 'base64'
+  | 'hex'
+  | 'textproto'
+  | 'proto3json'
+  | 'grpc'
+  | 'grpcwebtext'
+  | ByteLiteralFormat;
+
+// Settings applied on top of the output format
+export interface ConversionOptions {
+  /** Append a `grpc-status: 0` trailer frame to gRPC-Web text, as a server response would */
+  grpcTrailers?: boolean;
+  /** Wrap binary output in the Confluent Schema Registry envelope with this schema ID */
+  confluentSchemaId?: number;
+}
+
+// Language used to edit the message in the center editor
+export type EditorLanguage = 'json' | 'textproto';
+
+// Encodings accepted when decoding a payload back into JSON
+export type InputFormat = 'base64' | 'hex' | 'textproto';
+
+// 1-based position in a text input
+export interface TextLocation {
+  line: number;
+  column: number;
+}
+
+// A message type ranked by how well it fits an unknown payload
+export interface TypeCandidate {
+  messageName: string;
+  score: number; // share of encoded fields that fit the type, 0..1
+  matchedFields: number;
+  totalFields: number;
+  unusedFields: number; // schema fields absent from the payload
+  issues: string[];
+}
+
+export interface DecodeResult {
+  json?: string;
+  byteLength?: number;
+  error?: string;
+  errorLocation?: TextLocation;
+}
+
+// A Confluent Schema Registry record decoded with the message its indexes point to
+export interface ConfluentDecodeResult extends DecodeResult {
+  schemaId?: number;
+  messageIndexes?: number[];
+  messageName?: string;
+}
+
+// One message of a length-delimited stream or one frame of a gRPC body
+export interface StreamMessage {
+  index: number;
+  offset: number; // offset of the length prefix
+  byteLength: number; // message size without the prefix
+  json?: string;
+  trailers?: [string, string][]; // headers of a gRPC-Web trailer frame
+  compressed?: boolean; // gRPC frame with the compressed flag set
+  error?: string;
+}
+
+export interface StreamDecodeResult {
+  messages: StreamMessage[];
+  byteLength?: number;
+  error?: string;
+}
+
+// One side of a comparison: a payload, the editor's JSON or a saved message state
+export type CompareInput =
+  | { kind: 'payload'; buffer: Uint8Array }
+  | { kind: 'editor' }
+  | { kind: 'saved'; json: string; messageName: string }; // encoded with its own type first
+
+// A field that differs between two decoded messages
+export interface FieldChange {
+  path: JsonPath; // proto3 JSON keys, list indexes and map keys
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface CompareResult {
+  changes?: FieldChange[];
+  byteLengths?: [number, number];
+  error?: string;
+}
 
 export interface JsonSchema {
   type?: string | string[];
@@ -39,7 +243,19 @@ export interface JsonSchema {
   items?: any;
   enum?: any[];
   oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  const?: unknown;
+  examples?: unknown[];
   description?: string;
+  // Monaco extensions, shown in completion and hover
+  markdownDescription?: string;
+  deprecationMessage?: string;
+  enumDescriptions?: string[];
+  markdownEnumDescriptions?: string[];
+  format?: string;
+  pattern?: string;
   $ref?: string;
   definitions?: Record<string, any>;
 }
\ No newline at end of file
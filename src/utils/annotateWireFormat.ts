@@ -0,0 +1,169 @@
+import { Type, Field, MapField, types } from 'protobufjs';
+import type { JsonPath, WireFieldAnnotation } from '../types/proto';
+import { decodeRawFields, decodeUtf8, readVarint, type RawField } from './wireFormat';
+import { jsonNameOf } from './proto3Json';
+
+/**
+ * Maps every encoded field of a message to its tag, length and value bytes
+ * and to its path in the JSON representation (e.g. address.city, tags[0])
+ */
+export function annotateWireFormat(buffer: Uint8Array, type: Type): WireFieldAnnotation[] {
+  return annotateMessage(buffer, 0, buffer.length, type, []);
+}
+
+function annotateMessage(
+  buffer: Uint8Array,
+  start: number,
+  end: number,
+  type: Type | null,
+  basePath: JsonPath
+): WireFieldAnnotation[] {
+  if (type) {
+    type.resolveAll();
+  }
+
+  const rawFields = decodeRawFields(buffer, start, end);
+  const occurrences = new Map<number, number>();
+
+  return rawFields.map((raw) => {
+    const field = type ? type.fieldsById[raw.fieldNumber] : undefined;
+    const annotation: WireFieldAnnotation = {
+      path: [...basePath, `#${raw.fieldNumber}`],
+      fieldName: field ? field.name : null,
+      fieldNumber: raw.fieldNumber,
+      wireType: raw.wireType,
+      tag: [raw.offset, raw.lengthOffset ?? raw.valueOffset],
+      value: [raw.valueOffset, raw.end],
+    };
+
+    if (raw.lengthOffset !== undefined) {
+      annotation.length = [raw.lengthOffset, raw.valueOffset];
+    }
+
+    if (!field) {
+      // Unknown field: keep guessing nested messages so their bytes stay labelled
+      if (raw.value.kind === 'message') {
+        annotation.children = annotateMessage(buffer, raw.valueOffset, raw.end, null, annotation.path);
+      }
+      return annotation;
+    }
+
+    if (field instanceof MapField) {
+      const key = readMapKey(buffer, raw, field);
+      annotation.path = [...basePath, jsonNameOf(field), key];
+      annotation.children = annotateMapEntry(buffer, raw, field, annotation.path);
+      return annotation;
+    }
+
+    if (field.repeated) {
+      if (raw.wireType === 2 && isPackable(field)) {
+        // Packed encoding: one tag for the whole array
+        annotation.path = [...basePath, jsonNameOf(field)];
+        annotation.packed = true;
+      } else {
+        const index = occurrences.get(raw.fieldNumber) ?? 0;
+        occurrences.set(raw.fieldNumber, index + 1);
+        annotation.path = [...basePath, jsonNameOf(field), index];
+      }
+    } else {
+      annotation.path = [...basePath, jsonNameOf(field)];
+    }
+
+    if (field.resolvedType instanceof Type && raw.wireType === 2) {
+      annotation.children = annotateMessage(buffer, raw.valueOffset, raw.end, field.resolvedType, annotation.path);
+    }
+
+    return annotation;
+  });
+}
+
+/**
+ * Scalar numeric types can use packed encoding when repeated
+ */
+function isPackable(field: Field): boolean {
+  if (field.resolvedType && !(field.resolvedType instanceof Type)) {
+    // Enum
+    return true;
+  }
+  return types.packed[field.type as keyof typeof types.packed] !== undefined;
+}
+
+/**
+ * Reads the key of a map entry so the entry can be addressed like a JSON object property
+ */
+function readMapKey(buffer: Uint8Array, raw: RawField, field: MapField): string {
+  try {
+    const entry = decodeRawFields(buffer, raw.valueOffset, raw.end);
+    const keyField = entry.find((candidate) => candidate.fieldNumber === 1);
+
+    if (!keyField) {
+      // Missing key means the default value
+      return field.keyType === 'string' ? '' : field.keyType === 'bool' ? 'false' : '0';
+    }
+
+    if (keyField.wireType === 2) {
+      return decodeUtf8(buffer.subarray(keyField.valueOffset, keyField.end)) ?? '';
+    }
+
+    if (keyField.wireType === 0) {
+      const { value } = readVarint(buffer, keyField.valueOffset);
+      switch (field.keyType) {
+        case 'bool':
+          return value !== 0n ? 'true' : 'false';
+        case 'sint32':
+        case 'sint64':
+          return ((value >> 1n) ^ -(value & 1n)).toString();
+        case 'int32':
+        case 'int64':
+          return BigInt.asIntN(64, value).toString();
+        default:
+          return value.toString();
+      }
+    }
+
+    const view = new DataView(buffer.buffer, buffer.byteOffset + keyField.valueOffset, keyField.end - keyField.valueOffset);
+    if (keyField.wireType === 5) {
+      return field.keyType === 'sfixed32' ? String(view.getInt32(0, true)) : String(view.getUint32(0, true));
+    }
+    return field.keyType === 'sfixed64' ? view.getBigInt64(0, true).toString() : view.getBigUint64(0, true).toString();
+  } catch {
+    return '?';
+  }
+}
+
+/**
+ * Annotates the key and value fields inside a map entry
+ */
+function annotateMapEntry(
+  buffer: Uint8Array,
+  raw: RawField,
+  field: MapField,
+  entryPath: JsonPath
+): WireFieldAnnotation[] {
+  return decodeRawFields(buffer, raw.valueOffset, raw.end).map((entryField) => {
+    const annotation: WireFieldAnnotation = {
+      path: entryPath,
+      fieldName: entryField.fieldNumber === 1 ? 'key' : entryField.fieldNumber === 2 ? 'value' : null,
+      fieldNumber: entryField.fieldNumber,
+      wireType: entryField.wireType,
+      tag: [entryField.offset, entryField.lengthOffset ?? entryField.valueOffset],
+      value: [entryField.valueOffset, entryField.end],
+    };
+
+    if (entryField.lengthOffset !== undefined) {
+      annotation.length = [entryField.lengthOffset, entryField.valueOffset];
+    }
+
+    if (entryField.fieldNumber === 2 && field.resolvedType instanceof Type && entryField.wireType === 2) {
+      annotation.children = annotateMessage(
+        buffer,
+        entryField.valueOffset,
+        entryField.end,
+        field.resolvedType,
+        entryPath
+      );
+    }
+
+    return annotation;
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * Helpers for converting binary protobuf payloads to and from text encodings
+ */
+
+/**
+ * Converts bytes to a standard (padded) base64 string
+ */
+export function uint8ArrayToBase64(buffer: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < buffer.length; i++) {
+    binary += String.fromCharCode(buffer[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Converts bytes to a lowercase hex string without separators
+ */
+export function uint8ArrayToHex(buffer: Uint8Array): string {
+  return Array.from(buffer)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Parses a base64 string into bytes
+ * Accepts whitespace, missing padding and the URL-safe alphabet (-_)
+ */
+export function base64ToUint8Array(text: string): Uint8Array {
+  let normalized = text.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)) {
+    throw new Error('Input is not valid Base64');
+  }
+
+  // Restore missing padding
+  normalized = normalized.replace(/=+$/, '');
+  if (normalized.length % 4 === 1) {
+    throw new Error('Input is not valid Base64: unexpected length');
+  }
+  normalized += '='.repeat((4 - (normalized.length % 4)) % 4);
+
+  const binary = atob(normalized);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Parses a hex string into bytes
+ * Accepts whitespace, colons, commas and 0x prefixes between bytes (e.g. "0a 03" or "0x0a, 0x03")
+ */
+export function hexToUint8Array(text: string): Uint8Array {
+  const normalized = text.replace(/0x/gi, '').replace(/[\s:,]+/g, '');
+
+  if (!/^[0-9a-fA-F]*$/.test(normalized)) {
+    throw new Error('Input is not valid Hex: only 0-9 and a-f are allowed');
+  }
+  if (normalized.length % 2 !== 0) {
+    throw new Error('Input is not valid Hex: odd number of digits');
+  }
+
+  const bytes = new Uint8Array(normalized.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(normalized.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Parses base64 made of separately padded chunks, as in gRPC-Web text bodies where
+ * every frame is encoded on its own ("AAAAAAM...==gAAAAA...")
+ * Plain base64 is a single chunk and parses the same as with base64ToUint8Array
+ */
+export function base64ChunksToUint8Array(text: string): Uint8Array {
+  const chunks = text.replace(/\s+/g, '').match(/[^=]+=*/g) ?? [];
+  if (chunks.length <= 1) return base64ToUint8Array(text);
+
+  return concatBytes(chunks.map((chunk) => base64ToUint8Array(chunk)));
+}
+
+/**
+ * Joins byte arrays into one
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+}
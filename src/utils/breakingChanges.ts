@@ -0,0 +1,250 @@
+import { parse, Enum, Field, MapField, Namespace, Root, Type, util, type ReflectionObject } from 'protobufjs';
+import type { BreakingChange } from '../types/proto';
+import { jsonNameOf } from './proto3Json';
+
+/**
+ * Compares two versions of a schema in the style of `buf breaking`
+ * Only messages and enums present in both versions are compared field by field;
+ * a removed type shows up on the fields that referenced it
+ *
+ * - wire: payloads written with one version are misread by the other
+ * - json: the binary format still matches, but the JSON mapping changed
+ */
+
+// Scalar types that share a wire encoding, changing between them keeps the bytes readable
+const WIRE_COMPATIBLE_GROUPS = [
+  ['int32', 'uint32', 'int64', 'uint64', 'bool'],
+  ['sint32', 'sint64'],
+  ['fixed32', 'sfixed32'],
+  ['fixed64', 'sfixed64'],
+  ['string', 'bytes'],
+];
+
+const fullNameOf = (object: ReflectionObject): string => object.fullName.replace(/^\./, '');
+
+// Helper function to collect every message and enum of a root by full name, well-known types excluded
+const collectTypes = (namespace: Namespace, types: Map<string, Type | Enum>): Map<string, Type | Enum> => {
+  namespace.nestedArray.forEach((nested) => {
+    if (nested instanceof Type || nested instanceof Enum) {
+      const fullName = fullNameOf(nested);
+      if (!fullName.startsWith('google.protobuf.')) {
+        types.set(fullName, nested);
+      }
+    }
+    if (nested instanceof Namespace) {
+      collectTypes(nested, types);
+    }
+  });
+  return types;
+};
+
+// Helper function to describe a field's type, e.g. "int32", "pkg.Address" or "map<string, int32>"
+const describeType = (field: Field): string => {
+  const valueType = field.resolvedType ? fullNameOf(field.resolvedType) : field.type;
+  return field instanceof MapField ? `map<${field.keyType}, ${valueType}>` : valueType;
+};
+
+const describeLabel = (field: Field): string =>
+  field instanceof MapField ? 'map' : field.repeated ? 'repeated' : 'singular';
+
+// proto3 `optional` fields sit in a synthetic oneof named after the field
+const oneofOf = (field: Field): string | null => {
+  const oneof = field.partOf;
+  if (!oneof || (oneof.oneof.length === 1 && oneof.name === `_${field.name}`)) return null;
+  return oneof.name;
+};
+
+// Helper function to parse files again keeping field names as written, the compared roots camel-case them
+const parseSourceNames = (files: Map<string, string>): Root => {
+  const root = new Root();
+  files.forEach((content) => {
+    try {
+      parse(content, root, { keepCase: true });
+    } catch {
+      // Parse errors are reported for the loaded files
+    }
+  });
+  return root;
+};
+
+// Helper function to get a field's name as written in the .proto source, camel-cased when it isn't known
+const sourceNameOf = (field: Field, sourceRoot: Root | null): string => {
+  if (!sourceRoot || !field.parent) return field.name;
+  try {
+    return sourceRoot.lookupType(field.parent.fullName).fieldsById[field.id]?.name ?? field.name;
+  } catch {
+    return field.name;
+  }
+};
+
+// Field names are camel-cased on parse, reserved names are kept as written
+const isNameReserved = (type: Type, name: string): boolean =>
+  (type.reserved ?? []).some((reserved) => typeof reserved === 'string' && (reserved === name || util.camelCase(reserved) === name));
+
+const isWireCompatible = (before: string, after: string): boolean =>
+  WIRE_COMPATIBLE_GROUPS.some((group) => group.includes(before) && group.includes(after));
+
+function compareFields(
+  before: Type,
+  after: Type,
+  sources: { before: Root | null; after: Root | null },
+  changes: BreakingChange[]
+): void {
+  const typeName = fullNameOf(after);
+
+  before.fieldsArray.forEach((oldField) => {
+    const location = `${typeName}.${oldField.name}`;
+    const newField = after.fieldsById[oldField.id];
+
+    if (!newField) {
+      if (!after.isReservedId(oldField.id)) {
+        changes.push({
+          rule: 'FIELD_NO_DELETE_UNLESS_NUMBER_RESERVED',
+          category: 'wire',
+          location,
+          message: `Field ${oldField.id} "${oldField.name}" was deleted without reserving its number`,
+        });
+      }
+      if (!isNameReserved(after, oldField.name)) {
+        changes.push({
+          rule: 'FIELD_NO_DELETE_UNLESS_NAME_RESERVED',
+          category: 'json',
+          location,
+          message: `Field ${oldField.id} "${oldField.name}" was deleted without reserving its name`,
+        });
+      }
+      return;
+    }
+
+    // Renames the camel-casing hides (foo_bar to fooBar) still change the text format and reflection
+    const oldName = sourceNameOf(oldField, sources.before);
+    const newName = sourceNameOf(newField, sources.after);
+    if (newName !== oldName) {
+      changes.push({
+        rule: 'FIELD_SAME_NAME',
+        category: 'json',
+        location,
+        message: `Field ${oldField.id} was "${oldName}" and is now "${newName}"`,
+      });
+    }
+
+    const oldType = describeType(oldField);
+    const newType = describeType(newField);
+    if (oldType !== newType) {
+      const compatible = !oldField.resolvedType && !newField.resolvedType && isWireCompatible(oldType, newType);
+      changes.push({
+        rule: 'FIELD_SAME_TYPE',
+        category: compatible ? 'json' : 'wire',
+        location,
+        message: `Field ${oldField.id} "${newField.name}" changed type from ${oldType} to ${newType}${
+          compatible ? ', the bytes still decode but values and their JSON form can change' : ''
+        }`,
+      });
+    } else if (describeLabel(oldField) !== describeLabel(newField)) {
+      changes.push({
+        rule: 'FIELD_SAME_LABEL',
+        category: 'wire',
+        location,
+        message: `Field ${oldField.id} "${newField.name}" changed from ${describeLabel(oldField)} to ${describeLabel(newField)}`,
+      });
+    }
+
+    if (jsonNameOf(oldField) !== jsonNameOf(newField) && newField.name === oldField.name) {
+      changes.push({
+        rule: 'FIELD_SAME_JSON_NAME',
+        category: 'json',
+        location,
+        message: `Field ${oldField.id} "${newField.name}" changed its JSON name from "${jsonNameOf(oldField)}" to "${jsonNameOf(newField)}"`,
+      });
+    }
+
+    const oldOneof = oneofOf(oldField);
+    const newOneof = oneofOf(newField);
+    if (oldOneof !== newOneof) {
+      changes.push({
+        rule: 'FIELD_SAME_ONEOF',
+        category: 'wire',
+        location,
+        message: oldOneof
+          ? newOneof
+            ? `Field ${oldField.id} "${newField.name}" moved from oneof ${oldOneof} to oneof ${newOneof}`
+            : `Field ${oldField.id} "${newField.name}" was moved out of oneof ${oldOneof}`
+          : `Field ${oldField.id} "${newField.name}" was moved into oneof ${newOneof}`,
+      });
+    }
+  });
+
+  // Numbers reserved in the old version must stay unused
+  after.fieldsArray.forEach((newField) => {
+    if (!before.fieldsById[newField.id] && before.isReservedId(newField.id)) {
+      changes.push({
+        rule: 'RESERVED_RANGE_NO_DELETE',
+        category: 'wire',
+        location: `${typeName}.${newField.name}`,
+        message: `Field ${newField.id} "${newField.name}" uses a number that was reserved`,
+      });
+    }
+  });
+}
+
+function compareEnumValues(before: Enum, after: Enum, changes: BreakingChange[]): void {
+  const typeName = fullNameOf(after);
+
+  Object.entries(before.values).forEach(([name, number]) => {
+    const location = `${typeName}.${name}`;
+    const newName = after.valuesById[number];
+
+    if (newName === undefined) {
+      if (!after.isReservedId(number)) {
+        changes.push({
+          rule: 'ENUM_VALUE_NO_DELETE_UNLESS_NUMBER_RESERVED',
+          category: 'wire',
+          location,
+          message: `Enum value ${number} "${name}" was deleted without reserving its number`,
+        });
+      }
+      return;
+    }
+
+    // Aliases (allow_alias) list several names for one number, any of them keeps the old name working
+    if (newName !== name && after.values[name] !== number) {
+      changes.push({
+        rule: 'ENUM_VALUE_SAME_NAME',
+        category: 'json',
+        location,
+        message: `Enum value ${number} was "${name}" and is now "${newName}"`,
+      });
+    }
+  });
+}
+
+/**
+ * Lists the changes from the `before` schema to the `after` schema that break existing payloads
+ * With the .proto files of both versions, field renames are compared by the names as written
+ */
+export function detectBreakingChanges(
+  before: Root,
+  after: Root,
+  files?: { before: Map<string, string>; after: Map<string, string> }
+): BreakingChange[] {
+  before.resolveAll();
+  after.resolveAll();
+  const sources = {
+    before: files ? parseSourceNames(files.before) : null,
+    after: files ? parseSourceNames(files.after) : null,
+  };
+
+  const afterTypes = collectTypes(after, new Map());
+  const changes: BreakingChange[] = [];
+
+  collectTypes(before, new Map()).forEach((oldType, fullName) => {
+    const newType = afterTypes.get(fullName);
+    if (oldType instanceof Type && newType instanceof Type) {
+      compareFields(oldType, newType, sources, changes);
+    } else if (oldType instanceof Enum && newType instanceof Enum) {
+      compareEnumValues(oldType, newType, changes);
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,73 @@
+import type { ByteLiteralFormat, OutputFormat } from '../types/proto';
+import { uint8ArrayToBase64 } from './binaryEncoding';
+
+/**
+ * Writes bytes as source code literals for pasting into tests
+ * Long arrays are wrapped 16 bytes per line, indented the way each language's formatter does
+ */
+
+const BYTES_PER_LINE = 16;
+
+const BYTE_LITERAL_FORMATS = new Set<OutputFormat>(['base64url', 'go', 'c', 'python', 'java', 'rust', 'octal']);
+
+export const isByteLiteralFormat = (format: OutputFormat): format is ByteLiteralFormat =>
+  BYTE_LITERAL_FORMATS.has(format);
+
+const toHexByte = (byte: number): string => `0x${byte.toString(16).padStart(2, '0')}`;
+
+// Helper function to lay out array elements on one line, or wrapped with a trailing comma
+const formatElements = (elements: string[], open: string, close: string, indent: string): string => {
+  if (elements.length <= BYTES_PER_LINE) {
+    return `${open}${elements.join(', ')}${close}`;
+  }
+
+  const lines: string[] = [];
+  for (let i = 0; i < elements.length; i += BYTES_PER_LINE) {
+    lines.push(`${indent}${elements.slice(i, i + BYTES_PER_LINE).join(', ')},`);
+  }
+  return `${open}\n${lines.join('\n')}\n${close}`;
+};
+
+/**
+ * Formats bytes in the given literal syntax
+ */
+export function formatByteLiteral(buffer: Uint8Array, format: ByteLiteralFormat): string {
+  const bytes = Array.from(buffer);
+
+  switch (format) {
+    case 'base64url':
+      // RFC 4648 §5 alphabet without padding, as used in URLs and JWTs
+      return uint8ArrayToBase64(buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    case 'go':
+      return formatElements(bytes.map(toHexByte), '[]byte{', '}', '\t');
+
+    case 'c':
+      return formatElements(bytes.map(toHexByte), '{', '}', '    ');
+
+    case 'python':
+      return `b'${bytes.map((byte) => `\\x${byte.toString(16).padStart(2, '0')}`).join('')}'`;
+
+    case 'java':
+      // Java bytes are signed, values above 0x7f need a cast
+      return formatElements(
+        bytes.map((byte) => (byte > 0x7f ? `(byte) ${toHexByte(byte)}` : toHexByte(byte))),
+        'new byte[]{',
+        '}',
+        '    '
+      );
+
+    case 'rust':
+      // The u8 suffix on the first element types the whole slice
+      if (bytes.length === 0) return '&[] as &[u8]';
+      return formatElements(
+        bytes.map((byte, index) => (index === 0 ? `${toHexByte(byte)}_u8` : toHexByte(byte))),
+        '&[',
+        ']',
+        '    '
+      );
+
+    case 'octal':
+      return `"${bytes.map((byte) => `\\${byte.toString(8).padStart(3, '0')}`).join('')}"`;
+  }
+}
@@ -0,0 +1,58 @@
+import type { CompressionFormat } from '../types/proto';
+
+/**
+ * gzip and zlib (HTTP "deflate") payload compression using the browser's
+ * CompressionStream/DecompressionStream, so nothing leaves the machine
+ */
+
+export interface DecompressedPayload {
+  buffer: Uint8Array;
+  /** Set when the input was compressed */
+  compression?: CompressionFormat;
+  compressedLength?: number;
+}
+
+// Helper function to pipe bytes through a (de)compression stream
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const source = new Blob([new Uint8Array(bytes)]).stream();
+  return new Uint8Array(await new Response(source.pipeThrough(stream)).arrayBuffer());
+};
+
+/**
+ * Detects compressed input by its magic bytes
+ * - gzip: 1f 8b
+ * - zlib (HTTP "deflate"): a deflate method byte (x8) whose header checksum is a multiple of 31, e.g. 78 9c
+ */
+export function detectCompression(buffer: Uint8Array): CompressionFormat | null {
+  if (buffer.length < 2) return null;
+  if (buffer[0] === 0x1f && buffer[1] === 0x8b) return 'gzip';
+  if ((buffer[0] & 0x0f) === 8 && buffer[0] >> 4 <= 7 && ((buffer[0] << 8) | buffer[1]) % 31 === 0) return 'deflate';
+  return null;
+}
+
+export function compressBytes(buffer: Uint8Array, format: CompressionFormat = 'gzip'): Promise<Uint8Array> {
+  return pipeBytes(buffer, new CompressionStream(format));
+}
+
+export function decompressBytes(buffer: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  return pipeBytes(buffer, new DecompressionStream(format));
+}
+
+/**
+ * Decompresses the payload when its magic bytes say it is gzip or zlib
+ * A zlib header can also be the start of a plain protobuf message (78 01 is field 15 = 1),
+ * so input that fails to decompress is returned unchanged
+ */
+export async function decompressPayload(buffer: Uint8Array): Promise<DecompressedPayload> {
+  const compression = detectCompression(buffer);
+  if (!compression) return { buffer };
+
+  try {
+    return { buffer: await decompressBytes(buffer, compression), compression, compressedLength: buffer.length };
+  } catch (error) {
+    if (compression === 'gzip') {
+      throw new Error(`Input looks gzip-compressed but could not be decompressed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { buffer };
+  }
+}
@@ -0,0 +1,161 @@
+import { parse, Root, Type, type NamespaceBase } from 'protobufjs';
+import { readVarint } from './wireFormat';
+
+/**
+ * Confluent Schema Registry wire format for protobuf records (Kafka serializers):
+ * magic byte 0, the schema ID as a big-endian int32, the message indexes, then the payload
+ *
+ * Message indexes locate the message in its .proto file: [1, 0] is the first message nested
+ * in the second top-level message. They are written as a zigzag varint count followed by
+ * zigzag varint indexes, with [0] shortened to a single 0 byte
+ */
+
+const MAGIC_BYTE = 0;
+const HEADER_LENGTH = 5;
+
+export interface ConfluentEnvelope {
+  schemaId: number;
+  messageIndexes: number[];
+  /** Offset of the protobuf payload */
+  payloadStart: number;
+}
+
+const zigzagEncode = (value: number): number => ((value << 1) ^ (value >> 31)) >>> 0;
+
+const zigzagDecode = (value: number): number => (value >>> 1) ^ -(value & 1);
+
+function writeVarint(value: number, bytes: number[]): void {
+  while (value > 0x7f) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+/**
+ * Wraps an encoded message in the Confluent envelope
+ */
+export function encodeConfluentEnvelope(payload: Uint8Array, schemaId: number, messageIndexes: number[]): Uint8Array {
+  const header: number[] = [MAGIC_BYTE, 0, 0, 0, 0];
+  if (messageIndexes.length === 1 && messageIndexes[0] === 0) {
+    header.push(0);
+  } else {
+    writeVarint(zigzagEncode(messageIndexes.length), header);
+    messageIndexes.forEach((index) => writeVarint(zigzagEncode(index), header));
+  }
+
+  const record = new Uint8Array(header.length + payload.length);
+  record.set(header);
+  new DataView(record.buffer).setInt32(1, schemaId, false);
+  record.set(payload, header.length);
+  return record;
+}
+
+/**
+ * Reads the envelope in front of a Confluent record
+ * Throws if the record doesn't start with the magic byte or the indexes are malformed
+ */
+export function parseConfluentEnvelope(buffer: Uint8Array): ConfluentEnvelope {
+  if (buffer.length < HEADER_LENGTH + 1) {
+    throw new Error(`A Confluent record is at least ${HEADER_LENGTH + 1} bytes long, got ${buffer.length}`);
+  }
+  if (buffer[0] !== MAGIC_BYTE) {
+    throw new Error(`Not a Confluent record: expected magic byte 0, got 0x${buffer[0].toString(16).padStart(2, '0')}`);
+  }
+
+  const schemaId = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength).getInt32(1, false);
+
+  const readIndex = (offset: number): { value: number; next: number } => {
+    const varint = readVarint(buffer, offset);
+    if (varint.value > 0xffffffffn) {
+      throw new Error(`Message index at byte ${offset} is out of range`);
+    }
+    return { value: zigzagDecode(Number(varint.value)), next: varint.next };
+  };
+
+  const count = readIndex(HEADER_LENGTH);
+  if (count.value === 0) {
+    return { schemaId, messageIndexes: [0], payloadStart: count.next };
+  }
+  if (count.value < 0 || count.value > buffer.length) {
+    throw new Error(`Invalid message index count ${count.value}`);
+  }
+
+  const messageIndexes: number[] = [];
+  let pos = count.next;
+  for (let i = 0; i < count.value; i++) {
+    const index = readIndex(pos);
+    if (index.value < 0) {
+      throw new Error(`Invalid message index ${index.value} at byte ${pos}`);
+    }
+    messageIndexes.push(index.value);
+    pos = index.next;
+  }
+
+  return { schemaId, messageIndexes, payloadStart: pos };
+}
+
+// Helper function to list the messages declared directly in a namespace, in declaration order
+const nestedMessages = (namespace: NamespaceBase): Type[] =>
+  namespace.nestedArray.filter((nested): nested is Type => nested instanceof Type);
+
+// Helper function to parse one file on its own, so only its own declarations are visible
+const parseFileOnly = (content: string): { root: Root; packageName?: string } | null => {
+  try {
+    const parsed = parse(content, new Root(), { keepCase: false });
+    return { root: parsed.root, packageName: parsed.package };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Finds the file declaring a message and the message's indexes in it
+ * Returns null when none of the loaded files declares the message
+ */
+export function findMessageIndexes(
+  loadedFiles: Map<string, string>,
+  messageName: string
+): { fileName: string; messageIndexes: number[] } | null {
+  for (const [fileName, content] of loadedFiles.entries()) {
+    const file = parseFileOnly(content);
+    const declared = file?.root.lookup(messageName);
+    if (!(declared instanceof Type)) continue;
+
+    const messageIndexes: number[] = [];
+    let current: Type = declared;
+    while (current.parent) {
+      messageIndexes.unshift(nestedMessages(current.parent).indexOf(current));
+      if (!(current.parent instanceof Type)) break;
+      current = current.parent;
+    }
+    return { fileName, messageIndexes };
+  }
+  return null;
+}
+
+/**
+ * Resolves message indexes to the full name of the message in the given file
+ * Throws if the indexes point past the messages declared in the file
+ */
+export function resolveMessageIndexes(content: string, messageIndexes: number[]): string {
+  const file = parseFileOnly(content);
+  if (!file) {
+    throw new Error('The .proto file could not be parsed');
+  }
+
+  let namespace: NamespaceBase = file.packageName
+    ? (file.root.lookup(file.packageName) as NamespaceBase)
+    : file.root;
+  messageIndexes.forEach((index, depth) => {
+    const messages = nestedMessages(namespace);
+    if (index >= messages.length) {
+      throw new Error(
+        `Message index ${index} at depth ${depth} is out of range, ${namespace.fullName.replace(/^\./, '') || 'the file'} declares ${messages.length} messages`
+      );
+    }
+    namespace = messages[index];
+  });
+
+  return namespace.fullName.replace(/^\./, '');
+}
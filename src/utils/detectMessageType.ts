@@ -0,0 +1,168 @@
+import { Root, Type, Enum, Field, MapField, types } from 'protobufjs';
+import type { TypeCandidate } from '../types/proto';
+import { decodeRawFields, decodeUtf8, type RawField } from './wireFormat';
+
+// Stop collecting issue descriptions past this count, they only clutter the list
+const MAX_ISSUES = 5;
+
+interface FitStats {
+  matched: number;
+  total: number;
+  issues: string[];
+}
+
+/**
+ * Tries an unknown payload against every candidate message type and ranks them by fit:
+ * known field numbers, matching wire types, valid UTF-8 strings, in-range enum values
+ * and full consumption of the bytes by the decoder
+ */
+export function detectMessageTypes(buffer: Uint8Array, root: Root, messageNames: string[]): TypeCandidate[] {
+  // A payload that isn't well-formed wire format can't match any type
+  const rawFields = decodeRawFields(buffer);
+
+  const candidates: TypeCandidate[] = [];
+
+  for (const messageName of messageNames) {
+    let type: Type;
+    try {
+      type = root.lookupType(messageName);
+      type.resolveAll();
+    } catch {
+      continue;
+    }
+
+    const stats: FitStats = { matched: 0, total: 0, issues: [] };
+    checkMessage(buffer, rawFields, type, '', stats);
+
+    // The generated decoder must accept the bytes as well (required fields, lengths)
+    try {
+      type.decode(buffer);
+    } catch (error) {
+      stats.total++;
+      addIssue(stats, `decoder failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    candidates.push({
+      messageName,
+      score: stats.total === 0 ? 0 : stats.matched / stats.total,
+      matchedFields: stats.matched,
+      totalFields: stats.total,
+      unusedFields: type.fieldsArray.filter((field) => !rawFields.some((raw) => raw.fieldNumber === field.id)).length,
+      issues: stats.issues,
+    });
+  }
+
+  // Best score first; among equal scores prefer the type that leaves fewer schema fields unused
+  return candidates.sort((a, b) => b.score - a.score || a.unusedFields - b.unusedFields);
+}
+
+function addIssue(stats: FitStats, issue: string) {
+  if (stats.issues.length < MAX_ISSUES) {
+    stats.issues.push(issue);
+  }
+}
+
+/**
+ * Returns the wire types a field may legally be encoded with
+ */
+function expectedWireTypes(field: Field): number[] {
+  if (field instanceof MapField) return [2];
+  if (field.resolvedType instanceof Type) return [2, 3];
+  if (field.resolvedType instanceof Enum) return field.repeated ? [0, 2] : [0];
+
+  const wireType = types.basic[field.type as keyof typeof types.basic];
+  if (wireType === undefined) return [];
+  if (field.repeated && types.packed[field.type as keyof typeof types.packed] !== undefined) {
+    return [wireType, 2];
+  }
+  return [wireType];
+}
+
+function checkMessage(buffer: Uint8Array, rawFields: RawField[], type: Type, prefix: string, stats: FitStats) {
+  for (const raw of rawFields) {
+    stats.total++;
+    const field = type.fieldsById[raw.fieldNumber];
+    const label = `${prefix}${field ? field.name : `#${raw.fieldNumber}`}`;
+
+    if (!field) {
+      addIssue(stats, `unknown field ${label}`);
+      continue;
+    }
+
+    if (!expectedWireTypes(field).includes(raw.wireType)) {
+      addIssue(stats, `${label}: wire type ${raw.wireType} doesn't fit ${field.type}`);
+      continue;
+    }
+
+    if (checkValue(buffer, raw, field, `${label}.`, stats)) {
+      stats.matched++;
+    } else {
+      addIssue(stats, `${label}: invalid ${field.type} value`);
+    }
+  }
+}
+
+/**
+ * Validates a single field value, recursing into nested messages
+ * Returns false when the value itself doesn't fit the field type
+ */
+function checkValue(buffer: Uint8Array, raw: RawField, field: Field, prefix: string, stats: FitStats): boolean {
+  const bytes = buffer.subarray(raw.valueOffset, raw.end);
+
+  if (field instanceof MapField) {
+    try {
+      const entry = decodeRawFields(buffer, raw.valueOffset, raw.end);
+      return entry.every((entryField) => {
+        if (entryField.fieldNumber === 1) {
+          const keyWireType = types.mapKey[field.keyType as keyof typeof types.mapKey];
+          return entryField.wireType === keyWireType && (field.keyType !== 'string' || decodeUtf8(buffer.subarray(entryField.valueOffset, entryField.end)) !== null);
+        }
+        if (entryField.fieldNumber === 2) {
+          if (field.resolvedType instanceof Type) {
+            checkMessage(buffer, decodeRawFields(buffer, entryField.valueOffset, entryField.end), field.resolvedType, prefix, stats);
+            return entryField.wireType === 2;
+          }
+          if (field.resolvedType instanceof Enum) {
+            return entryField.wireType === 0;
+          }
+          return entryField.wireType === types.basic[field.type as keyof typeof types.basic];
+        }
+        return false;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  if (field.resolvedType instanceof Type) {
+    if (raw.wireType === 3) {
+      return raw.value.kind === 'group';
+    }
+    try {
+      checkMessage(buffer, decodeRawFields(buffer, raw.valueOffset, raw.end), field.resolvedType, prefix, stats);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  if (field.resolvedType instanceof Enum) {
+    if (raw.value.kind !== 'varint') return true; // packed, not inspected
+    return field.resolvedType.valuesById[Number(BigInt.asIntN(32, raw.value.value))] !== undefined;
+  }
+
+  switch (field.type) {
+    case 'string':
+      // Control characters that also parse as a nested message are far more likely a message
+      return decodeUtf8(bytes) !== null && raw.value.kind !== 'message';
+    case 'bool':
+      return raw.value.kind !== 'varint' || raw.value.value <= 1n;
+    case 'int32':
+    case 'uint32':
+    case 'sint32':
+      // 32-bit values never need more than 5 bytes, except sign-extended negative int32
+      return raw.value.kind !== 'varint' || raw.value.value <= 0xffffffffn || BigInt.asIntN(64, raw.value.value) >= -0x80000000n;
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,57 @@
+import type { FieldChange, JsonPath } from '../types/proto';
+
+/**
+ * Structural diff of two decoded messages in proto3 JSON form
+ * Objects (messages and maps) are matched by key and lists by index.
+ * Fields at their default value are omitted from proto3 JSON, so a field
+ * set to its default shows up as removed
+ */
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the fields added, removed or changed from `before` to `after`
+ */
+export function diffJson(before: unknown, after: unknown, path: JsonPath = []): FieldChange[] {
+  const changes: FieldChange[] = [];
+  collectChanges(before, after, path, changes);
+  return changes;
+}
+
+function collectChanges(before: unknown, after: unknown, path: JsonPath, changes: FieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    // Keys of `before` keep their order, new keys follow
+    const keys = [...Object.keys(before), ...Object.keys(after).filter((key) => !(key in before))];
+    keys.forEach((key) => {
+      const childPath = [...path, key];
+      if (!(key in after)) {
+        changes.push({ path: childPath, kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: childPath, kind: 'added', after: after[key] });
+      } else {
+        collectChanges(before[key], after[key], childPath, changes);
+      }
+    });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      const childPath = [...path, index];
+      if (index >= after.length) {
+        changes.push({ path: childPath, kind: 'removed', before: before[index] });
+      } else if (index >= before.length) {
+        changes.push({ path: childPath, kind: 'added', after: after[index] });
+      } else {
+        collectChanges(before[index], after[index], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
@@ -0,0 +1,214 @@
+import { Type, Enum, Field, MapField, Message } from 'protobufjs';
+import { mapKeyToString, resolveTypeUrl } from './proto3Json';
+
+/**
+ * Converts a protobuf message to ProtoText format (canonical text format)
+ * Based on the protocol buffers text format specification:
+ * https://protobuf.dev/reference/protobuf/textformat-spec/
+ *
+ * The output is accepted back by parseProtoText
+ * Any messages of a loaded type are expanded: [type.googleapis.com/package.Message] { ... }
+ */
+export function messageToProtoText(message: Message, type: Type): string {
+  // Enum names and 64-bit integers as strings, bytes stay Uint8Array for escaping
+  const obj = type.toObject(message, { enums: String, longs: String });
+  return formatMessage(obj, type, 0);
+}
+
+function formatMessage(obj: Record<string, unknown>, type: Type, indentLevel: number): string {
+  const indent = '  '.repeat(indentLevel);
+  const lines: string[] = [];
+
+  type.resolveAll();
+
+  if (type.fullName === '.google.protobuf.Any') {
+    const expanded = formatAny(obj, type, indentLevel);
+    if (expanded !== null) return expanded;
+  }
+
+  // Process each field in the message type definition
+  type.fieldsArray.forEach((field) => {
+    const value = obj[field.name];
+
+    // Skip undefined values - they're not set
+    if (value === undefined || value === null) {
+      return;
+    }
+
+    // Maps are written as repeated entries with key and value
+    if (field instanceof MapField) {
+      Object.entries(value as Record<string, unknown>).forEach(([key, entryValue]) => {
+        lines.push(`${indent}${field.name} {`);
+        lines.push(`${indent}  key: ${formatMapKey(key, field.keyType)}`);
+        lines.push(formatFieldValue('value', entryValue, field, `${indent}  `, indentLevel + 1));
+        lines.push(`${indent}}`);
+      });
+      return;
+    }
+
+    // Output each element of a repeated field on its own line
+    if (field.repeated && Array.isArray(value)) {
+      value.forEach((item) => {
+        lines.push(formatFieldValue(field.name, item, field, indent, indentLevel));
+      });
+      return;
+    }
+
+    // Skip zero/default values for proto3 singular fields
+    // In proto3, unset fields default to zero values and shouldn't be serialized
+    // unless explicitly set (we can't distinguish this in JS, so we skip zero values)
+    if (isDefaultValue(value, field)) {
+      return;
+    }
+
+    lines.push(formatFieldValue(field.name, value, field, indent, indentLevel));
+  });
+
+  return lines.join('\n');
+}
+
+// Expand a packed Any into its message, null when the type isn't loaded or the bytes don't decode
+function formatAny(obj: Record<string, unknown>, anyType: Type, indentLevel: number): string | null {
+  // Any is type_url = 1, value = 2
+  const typeUrl = obj[anyType.fieldsById[1].name];
+  const value = obj[anyType.fieldsById[2].name];
+  if (typeof typeUrl !== 'string' || !typeUrl || !(value instanceof Uint8Array)) {
+    return null;
+  }
+
+  const innerType = resolveTypeUrl(anyType, typeUrl);
+  if (!innerType) return null;
+
+  let inner: Record<string, unknown>;
+  try {
+    inner = innerType.toObject(innerType.decode(value), { enums: String, longs: String });
+  } catch {
+    return null;
+  }
+
+  const indent = '  '.repeat(indentLevel);
+  const nestedText = formatMessage(inner, innerType, indentLevel + 1);
+  return nestedText ? `${indent}[${typeUrl}] {\n${nestedText}\n${indent}}` : `${indent}[${typeUrl}] {}`;
+}
+
+// Format a single field value
+function formatFieldValue(
+  fieldName: string,
+  value: unknown,
+  field: Field,
+  indent: string,
+  indentLevel: number
+): string {
+  // Nested message fields
+  if (field.resolvedType instanceof Type) {
+    const nestedText = formatMessage(value as Record<string, unknown>, field.resolvedType, indentLevel + 1);
+    if (nestedText) {
+      return `${indent}${fieldName} {\n${nestedText}\n${indent}}`;
+    }
+    return `${indent}${fieldName} {}`;
+  }
+
+  // Enum fields already hold the symbolic name (or the number when unknown)
+  if (field.resolvedType instanceof Enum) {
+    return `${indent}${fieldName}: ${value}`;
+  }
+
+  if (field.type === 'bytes') {
+    return `${indent}${fieldName}: ${escapeBytes(value as Uint8Array)}`;
+  }
+
+  if (typeof value === 'string' && field.type === 'string') {
+    return `${indent}${fieldName}: ${escapeBytes(new TextEncoder().encode(value))}`;
+  }
+
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return `${indent}${fieldName}: ${Number.isNaN(value) ? 'nan' : value > 0 ? 'inf' : '-inf'}`;
+  }
+
+  // Numbers, booleans and 64-bit integers as strings
+  return `${indent}${fieldName}: ${value}`;
+}
+
+function formatMapKey(key: string, keyType: string): string {
+  if (keyType === 'string') {
+    return escapeBytes(new TextEncoder().encode(key));
+  }
+  return mapKeyToString(key, keyType);
+}
+
+// Check if a value is the default/zero value for its field type
+function isDefaultValue(value: unknown, field: Field): boolean {
+  // Message types are never considered "default" - always serialize them
+  if (field.resolvedType instanceof Type) {
+    return false;
+  }
+
+  // Enum: the first value (usually 0)
+  if (field.resolvedType instanceof Enum) {
+    const firstName = Object.keys(field.resolvedType.values)[0];
+    return value === firstName || value === 0;
+  }
+
+  switch (field.type) {
+    case 'bool':
+      return value === false;
+    case 'string':
+      return value === '';
+    case 'bytes':
+      return value instanceof Uint8Array && value.length === 0;
+    default:
+      return value === 0 || value === '0';
+  }
+}
+
+// Escape bytes for a ProtoText string literal
+// Printable ASCII stays as is, valid UTF-8 sequences are kept, everything else becomes octal
+function escapeBytes(bytes: Uint8Array): string {
+  let text = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    switch (byte) {
+      case 0x22:
+        text += '\\"';
+        break;
+      case 0x5c:
+        text += '\\\\';
+        break;
+      case 0x0a:
+        text += '\\n';
+        break;
+      case 0x0d:
+        text += '\\r';
+        break;
+      case 0x09:
+        text += '\\t';
+        break;
+      default: {
+        if (byte >= 0x20 && byte < 0x7f) {
+          text += String.fromCharCode(byte);
+          break;
+        }
+
+        // Keep readable non-ASCII characters when they form a valid UTF-8 sequence
+        const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc2 ? 2 : 0;
+        if (length > 0 && i + length <= bytes.length) {
+          try {
+            text += new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(i, i + length));
+            i += length;
+            continue;
+          } catch {
+            // Not valid UTF-8, fall through to octal escaping
+          }
+        }
+
+        text += '\\' + byte.toString(8).padStart(3, '0');
+      }
+    }
+    i++;
+  }
+
+  return `"${text}"`;
+}
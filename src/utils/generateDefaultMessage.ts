@@ -1,4 +1,5 @@
 import { Type, Field, Enum } from 'protobufjs';
+import { jsonNameOf } from './proto3Json';
 
 /**
  * Generates a default JSON object with zero values for a protobuf message type
@@ -33,7 +34,7 @@ export function generateDefaultMessage(
       // Only generate value for the FIRST field in the oneof group
       if (oneof.fieldsArray.length > 0) {
         const firstField = oneof.fieldsArray[0];
-        result[firstField.name] = generateDefaultFieldValue(firstField, maxDepth, currentDepth);
+        result[jsonNameOf(firstField)] = generateDefaultFieldValue(firstField, maxDepth, currentDepth);
       }
     });
   }
@@ -42,7 +43,7 @@ export function generateDefaultMessage(
   Object.values(type.fields).forEach((field: Field) => {
     // Skip fields that are part of oneof groups (already processed above)
     if (!oneofFields.has(field.name)) {
-      result[field.name] = generateDefaultFieldValue(field, maxDepth, currentDepth);
+      result[jsonNameOf(field)] = generateDefaultFieldValue(field, maxDepth, currentDepth);
     }
   });
 
@@ -81,20 +82,20 @@ function generateDefaultValueByType(
 ): any {
   const protoType = field.type;
 
-  // Primitive types
+  // Primitive types (64-bit integers are strings in proto3 JSON)
   const primitiveDefaults: Record<string, any> = {
     double: 0,
     float: 0,
     int32: 0,
-    int64: 0,
+    int64: '0',
     uint32: 0,
-    uint64: 0,
+    uint64: '0',
     sint32: 0,
-    sint64: 0,
+    sint64: '0',
     fixed32: 0,
-    fixed64: 0,
+    fixed64: '0',
     sfixed32: 0,
-    sfixed64: 0,
+    sfixed64: '0',
     bool: false,
     string: '',
     bytes: '',
@@ -107,7 +108,8 @@ function generateDefaultValueByType(
   // Handle resolved types (enums and nested messages)
   if (field.resolvedType) {
     const resolvedType = field.resolvedType;
-    const fullName = (resolvedType as any).fullName || protoType;
+    // Resolved full names start with a dot (.google.protobuf.Timestamp)
+    const fullName = ((resolvedType as any).fullName || protoType).replace(/^\./, '');
 
     // Check if it's an Enum
     if ((resolvedType as any).values !== undefined) {
@@ -148,7 +150,7 @@ function generateDefaultEnumValue(enumType: Enum): number {
 }
 
 /**
- * Generates default values for google.protobuf well-known types
+ * Generates default values for google.protobuf well-known types in their proto3 JSON form
  */
 function generateDefaultWellKnownType(fullName: string): any {
   const typeName = fullName.replace('google.protobuf.', '');
@@ -157,9 +159,9 @@ function generateDefaultWellKnownType(fullName: string): any {
   const wrapperDefaults: Record<string, any> = {
     'StringValue': '',
     'Int32Value': 0,
-    'Int64Value': 0,
+    'Int64Value': '0',
     'UInt32Value': 0,
-    'UInt64Value': 0,
+    'UInt64Value': '0',
     'FloatValue': 0.0,
     'DoubleValue': 0.0,
     'BoolValue': false,
@@ -173,9 +175,9 @@ function generateDefaultWellKnownType(fullName: string): any {
   // Special well-known types
   switch (typeName) {
     case 'Timestamp':
-      return { seconds: 0, nanos: 0 };
+      return '1970-01-01T00:00:00Z';
     case 'Duration':
-      return { seconds: 0, nanos: 0 };
+      return '0s';
     case 'Empty':
       return {};
     case 'Struct':
@@ -183,11 +185,12 @@ function generateDefaultWellKnownType(fullName: string): any {
     case 'Value':
       return null;
     case 'ListValue':
-      return { values: [] };
+      return [];
     case 'FieldMask':
-      return { paths: [] };
+      return '';
     case 'Any':
-      return { typeUrl: '', value: '' };
+      // Filled in as {"@type": "type.googleapis.com/package.Message", ...fields}
+      return {};
     default:
       return {};
   }
@@ -140,7 +140,7 @@ function generateFieldDefinition(field: Field, indent = 0): string[] {
 
   // Add comment if field has a comment
   if (field.comment) {
-    lines.push(`${indentStr}// ${field.comment}`);
+    field.comment.split('\n').forEach((commentLine) => lines.push(`${indentStr}// ${commentLine}`.trimEnd()));
   }
 
   lines.push(fieldLine);
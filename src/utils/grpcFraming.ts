@@ -0,0 +1,110 @@
+/**
+ * gRPC message framing (HTTP/2 gRPC and gRPC-Web)
+ *
+ * Every message is sent as a 5-byte prefix followed by the payload:
+ * one flag byte (0x01 = compressed, 0x80 = gRPC-Web trailer frame) and a big-endian uint32 length.
+ * gRPC-Web text (application/grpc-web-text) is the same bytes in base64
+ */
+
+const FLAG_COMPRESSED = 0x01;
+const FLAG_TRAILER = 0x80;
+const HEADER_LENGTH = 5;
+
+/**
+ * Location and flags of one frame in a gRPC body
+ */
+export interface GrpcFrame {
+  /** Offset of the 5-byte prefix */
+  offset: number;
+  /** Offsets of the frame payload */
+  start: number;
+  end: number;
+  compressed: boolean;
+  trailer: boolean;
+}
+
+/**
+ * Wraps a payload in a gRPC frame
+ */
+export function encodeGrpcFrame(payload: Uint8Array, options: { compressed?: boolean; trailer?: boolean } = {}): Uint8Array {
+  const frame = new Uint8Array(HEADER_LENGTH + payload.length);
+  frame[0] = (options.compressed ? FLAG_COMPRESSED : 0) | (options.trailer ? FLAG_TRAILER : 0);
+  new DataView(frame.buffer).setUint32(1, payload.length, false);
+  frame.set(payload, HEADER_LENGTH);
+  return frame;
+}
+
+/**
+ * Builds a gRPC-Web trailer frame from header name/value pairs
+ */
+export function encodeGrpcTrailers(trailers: [string, string][]): Uint8Array {
+  const block = trailers.map(([name, value]) => `${name}: ${value}\r\n`).join('');
+  return encodeGrpcFrame(new TextEncoder().encode(block), { trailer: true });
+}
+
+/**
+ * Parses the HTTP/1-style header block of a trailer frame ("grpc-status: 0\r\n...")
+ */
+export function parseGrpcTrailers(payload: Uint8Array): [string, string][] {
+  return new TextDecoder()
+    .decode(payload)
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line): [string, string] => {
+      const colon = line.indexOf(':');
+      if (colon === -1) return [line.trim().toLowerCase(), ''];
+      return [line.substring(0, colon).trim().toLowerCase(), line.substring(colon + 1).trim()];
+    });
+}
+
+/**
+ * Splits a gRPC or gRPC-Web body into frames
+ * Stops at a truncated frame and reports it next to the frames read so far
+ */
+export function splitGrpcFrames(buffer: Uint8Array): { frames: GrpcFrame[]; error?: string } {
+  const frames: GrpcFrame[] = [];
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let pos = 0;
+
+  while (pos < buffer.length) {
+    if (buffer.length - pos < HEADER_LENGTH) {
+      return { frames, error: `Frame ${frames.length} at byte ${pos} is cut off inside its 5-byte prefix` };
+    }
+
+    const flags = buffer[pos];
+    if ((flags & ~(FLAG_COMPRESSED | FLAG_TRAILER)) !== 0) {
+      return { frames, error: `Frame ${frames.length} at byte ${pos} has unknown flags 0x${flags.toString(16).padStart(2, '0')}` };
+    }
+
+    const length = view.getUint32(pos + 1, false);
+    const start = pos + HEADER_LENGTH;
+    const remaining = buffer.length - start;
+    if (length > remaining) {
+      return {
+        frames,
+        error: `Frame ${frames.length} at byte ${pos} is ${length} bytes long but only ${remaining} bytes remain`,
+      };
+    }
+
+    frames.push({
+      offset: pos,
+      start,
+      end: start + length,
+      compressed: (flags & FLAG_COMPRESSED) !== 0,
+      trailer: (flags & FLAG_TRAILER) !== 0,
+    });
+    pos = start + length;
+  }
+
+  return { frames };
+}
+
+/**
+ * Returns true when the bytes are a complete gRPC body starting with a data frame
+ * A protobuf message can't start with 0x00 or 0x01 (field number 0), so this doesn't mistake plain payloads for frames
+ */
+export function isGrpcFramed(buffer: Uint8Array): boolean {
+  if (buffer.length < HEADER_LENGTH || buffer[0] > FLAG_COMPRESSED) return false;
+  const { frames, error } = splitGrpcFrames(buffer);
+  return !error && frames.length > 0;
+}
@@ -0,0 +1,187 @@
+import type { JsonPath } from '../types/proto';
+
+/**
+ * Location of a single JSON value, with character offsets into the source text
+ */
+export interface JsonNodeLocation {
+  path: JsonPath;
+  /** Offsets of the quoted key (object properties only) */
+  keyStart?: number;
+  keyEnd?: number;
+  /** Offsets of the value */
+  start: number;
+  end: number;
+}
+
+/**
+ * Scans JSON text and records the location of every value
+ * Stops at the first syntax error and returns what was found up to that point,
+ * so locations stay available while the user is typing
+ */
+export function indexJsonLocations(text: string): JsonNodeLocation[] {
+  const nodes: JsonNodeLocation[] = [];
+  let pos = 0;
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected token at ${pos}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readString = (): string => {
+    if (text[pos] !== '"') fail();
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\\') pos++;
+      pos++;
+    }
+    if (pos >= text.length) fail();
+    pos++;
+    return JSON.parse(text.substring(start, pos));
+  };
+
+  const readValue = (path: JsonPath, node: JsonNodeLocation) => {
+    skipWhitespace();
+    node.start = pos;
+    nodes.push(node);
+
+    const char = text[pos];
+    if (char === '{') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+      } else {
+        while (true) {
+          skipWhitespace();
+          const keyStart = pos;
+          const key = readString();
+          const keyEnd = pos;
+          skipWhitespace();
+          if (text[pos] !== ':') fail();
+          pos++;
+          readValue([...path, key], { path: [...path, key], keyStart, keyEnd, start: pos, end: pos });
+          skipWhitespace();
+          if (text[pos] === ',') {
+            pos++;
+          } else if (text[pos] === '}') {
+            pos++;
+            break;
+          } else {
+            fail();
+          }
+        }
+      }
+    } else if (char === '[') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+      } else {
+        let index = 0;
+        while (true) {
+          readValue([...path, index], { path: [...path, index], start: pos, end: pos });
+          index++;
+          skipWhitespace();
+          if (text[pos] === ',') {
+            pos++;
+          } else if (text[pos] === ']') {
+            pos++;
+            break;
+          } else {
+            fail();
+          }
+        }
+      }
+    } else if (char === '"') {
+      readString();
+    } else {
+      const match = /^(-?\d+(\.\d+)?([eE][-+]?\d+)?|true|false|null)/.exec(text.substring(pos, pos + 400));
+      if (!match) fail();
+      pos += match![0].length;
+    }
+
+    node.end = pos;
+  };
+
+  try {
+    readValue([], { path: [], start: 0, end: 0 });
+  } catch {
+    // Keep partial results
+  }
+
+  return nodes;
+}
+
+/**
+ * Returns true when both paths point to the same value
+ */
+export function jsonPathsEqual(a: JsonPath, b: JsonPath): boolean {
+  return a.length === b.length && a.every((segment, i) => segment === b[i]);
+}
+
+/**
+ * Returns true when path is equal to or nested inside prefix
+ */
+export function jsonPathStartsWith(path: JsonPath, prefix: JsonPath): boolean {
+  return prefix.length <= path.length && prefix.every((segment, i) => segment === path[i]);
+}
+
+/**
+ * Formats a path for display, e.g. address.city or tags[0]
+ */
+export function formatJsonPath(path: JsonPath): string {
+  return path
+    .map((segment, i) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      if (/^[A-Za-z_][\w]*$/.test(segment)) return i === 0 ? segment : `.${segment}`;
+      return `[${JSON.stringify(segment)}]`;
+    })
+    .join('');
+}
+
+/**
+ * Finds the range to highlight for a path in indexed JSON: the key of an object property,
+ * or the whole value of an array element
+ */
+export function findJsonPathRange(nodes: JsonNodeLocation[], path: JsonPath): { start: number; end: number } | null {
+  const node = nodes.find((candidate) => jsonPathsEqual(candidate.path, path));
+  if (!node) return null;
+
+  if (node.keyStart !== undefined && node.keyEnd !== undefined) {
+    return { start: node.keyStart, end: node.keyEnd };
+  }
+  return { start: node.start, end: node.end };
+}
+
+/**
+ * Returns the path of the innermost key or value containing the offset in indexed JSON
+ */
+export function getJsonPathAtOffset(nodes: JsonNodeLocation[], offset: number): JsonPath | null {
+  let best: JsonNodeLocation | null = null;
+
+  for (const node of nodes) {
+    const start = node.keyStart ?? node.start;
+    if (offset >= start && offset <= node.end && node.path.length > 0) {
+      if (!best || node.path.length > best.path.length) {
+        best = node;
+      }
+    }
+  }
+
+  return best ? best.path : null;
+}
+
+/**
+ * Finds integer literals that JSON.parse can't represent exactly (beyond ±2^53),
+ * e.g. 64-bit IDs written as numbers instead of strings
+ */
+export function findImpreciseIntegers(text: string): JsonNodeLocation[] {
+  return indexJsonLocations(text).filter((node) => {
+    const literal = text.substring(node.start, node.end);
+    return /^-?\d+$/.test(literal) && !Number.isSafeInteger(Number(literal));
+  });
+}
@@ -12,6 +12,8 @@ export interface MessageEditorState {
   key: string;
   /** JSON content of the editor */
   jsonContent: string;
+  /** ProtoText content, when the message is edited as ProtoText */
+  textprotoContent?: string;
   /** Timestamp of last edit */
   lastEditedAt: number;
 }
@@ -58,7 +60,8 @@ export function generateStorageKey(fullMessageName: string): string {
  */
 export async function saveMessageState(
   fullMessageName: string,
-  jsonContent: string
+  jsonContent: string,
+  textprotoContent?: string
 ): Promise<void> {
   try {
     const db = await openDatabase();
@@ -68,6 +71,7 @@ export async function saveMessageState(
     const state: MessageEditorState = {
       key: generateStorageKey(fullMessageName),
       jsonContent,
+      textprotoContent,
       lastEditedAt: Date.now(),
     };
 
@@ -89,7 +93,7 @@ export async function saveMessageState(
   } catch (error) {
     console.error('Error saving message state:', error);
     // Fallback to localStorage if IndexedDB fails
-    fallbackSaveToLocalStorage(fullMessageName, jsonContent);
+    fallbackSaveToLocalStorage(fullMessageName, jsonContent, textprotoContent);
   }
 }
 
@@ -222,12 +226,17 @@ export async function getAllMessageStates(): Promise<MessageEditorState[]> {
 
 const LOCALSTORAGE_PREFIX = 'msgState_';
 
-function fallbackSaveToLocalStorage(fullMessageName: string, jsonContent: string): void {
+function fallbackSaveToLocalStorage(
+  fullMessageName: string,
+  jsonContent: string,
+  textprotoContent?: string
+): void {
   try {
     const key = LOCALSTORAGE_PREFIX + generateStorageKey(fullMessageName);
     const state: MessageEditorState = {
       key: generateStorageKey(fullMessageName),
       jsonContent,
+      textprotoContent,
       lastEditedAt: Date.now(),
     };
     localStorage.setItem(key, JSON.stringify(state));
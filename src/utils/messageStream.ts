@@ -0,0 +1,88 @@
+import { readVarint } from './wireFormat';
+
+/**
+ * Helpers for length-delimited message streams: every message is prefixed with its
+ * size as a varint (Java writeDelimitedTo, protobufjs encodeDelimited, C++ SerializeDelimitedToOstream)
+ */
+
+/**
+ * Location of one message in a length-delimited buffer
+ */
+export interface DelimitedFrame {
+  /** Offset of the length prefix */
+  offset: number;
+  /** Offsets of the message bytes */
+  start: number;
+  end: number;
+}
+
+/**
+ * Parses editor text holding messages: a JSON array, JSON Lines (one object per line)
+ * or a single JSON value, which becomes a list of one
+ * Throws the JSON syntax error of the whole text when it is neither
+ */
+export function parseMessageList(text: string): unknown[] {
+  try {
+    const value = JSON.parse(text);
+    return Array.isArray(value) ? value : [value];
+  } catch (error) {
+    const lines = text.split('\n').filter((line) => line.trim() !== '');
+    if (lines.length < 2) throw error;
+
+    try {
+      return lines.map((line) => JSON.parse(line));
+    } catch {
+      // Not JSON Lines either, report the error for the text as a whole
+      throw error;
+    }
+  }
+}
+
+/**
+ * Returns true when the text holds several messages (a JSON array or JSON Lines)
+ */
+export function isMessageListText(text: string): boolean {
+  if (/^\s*\[/.test(text)) return true;
+  try {
+    JSON.parse(text);
+    return false;
+  } catch {
+    try {
+      return parseMessageList(text).length > 1;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Splits a length-delimited buffer into frames
+ * Stops at a malformed or truncated length prefix and reports it next to the frames read so far
+ */
+export function splitDelimited(buffer: Uint8Array): { frames: DelimitedFrame[]; error?: string } {
+  const frames: DelimitedFrame[] = [];
+  let pos = 0;
+
+  while (pos < buffer.length) {
+    let length: { value: bigint; next: number };
+    try {
+      length = readVarint(buffer, pos);
+    } catch (error) {
+      return { frames, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const remaining = buffer.length - length.next;
+    if (length.value > BigInt(remaining)) {
+      return {
+        frames,
+        error: `Message ${frames.length} at byte ${pos} is ${length.value} bytes long but only ${remaining} bytes remain`,
+      };
+    }
+
+    const end = length.next + Number(length.value);
+    frames.push({ offset: pos, start: length.next, end });
+    pos = end;
+  }
+
+  return { frames };
+}
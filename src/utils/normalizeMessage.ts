@@ -0,0 +1,138 @@
+import { Type, Enum, Field, MapField } from 'protobufjs';
+import { uint8ArrayToBase64 } from './binaryEncoding';
+
+/**
+ * Schema-driven normalization of a message object before type.verify and type.fromObject
+ *
+ * protobufjs verify() expects numeric enum values and base64 bytes, while the editor
+ * accepts enum names and plain text. Every place a value can appear is walked:
+ * singular fields, repeated fields, map keys and values, and nested messages inside all of them.
+ * Values of the wrong shape are kept as is so verify can report them
+ */
+
+export const WRAPPER_TYPES = new Set([
+  'google.protobuf.DoubleValue',
+  'google.protobuf.FloatValue',
+  'google.protobuf.Int64Value',
+  'google.protobuf.UInt64Value',
+  'google.protobuf.Int32Value',
+  'google.protobuf.UInt32Value',
+  'google.protobuf.BoolValue',
+  'google.protobuf.StringValue',
+  'google.protobuf.BytesValue',
+]);
+
+const INTEGER_KEY_TYPES = new Set([
+  'int32',
+  'int64',
+  'uint32',
+  'uint64',
+  'sint32',
+  'sint64',
+  'fixed32',
+  'fixed64',
+  'sfixed32',
+  'sfixed64',
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks if a string is valid base64
+ */
+export function isValidBase64(str: string): boolean {
+  // Base64 pattern: letters, numbers, +, /, and optional = padding
+  const base64Pattern = /^[A-Za-z0-9+/]*={0,2}$/;
+  if (!base64Pattern.test(str)) return false;
+
+  // Padded base64 always has a length that is a multiple of 4
+  return str.length % 4 === 0;
+}
+
+/**
+ * Checks if a string is URL-safe base64: it has a `-` or `_`, which standard base64 doesn't
+ */
+export function isUrlSafeBase64(str: string): boolean {
+  return /^[A-Za-z0-9\-_]+=*$/.test(str) && /[-_]/.test(str);
+}
+
+/**
+ * Checks if a bytes field value is taken as UTF-8 text rather than decoded as base64,
+ * the way fromProto3Json (URL-safe base64) and normalizeMessage (standard base64) read it
+ */
+export function isBytesText(str: string): boolean {
+  return !isUrlSafeBase64(str) && !isValidBase64(str);
+}
+
+/**
+ * Normalizes a message object for the given type
+ * - enum names become numbers
+ * - bytes given as plain text become base64 (valid base64 is kept as is)
+ * - integer and bool map keys are written the way verify expects ("007" → "7", "True" → "true")
+ * - bare values of wrapper types become {value}
+ */
+export function normalizeMessage(obj: Record<string, unknown>, type: Type): Record<string, unknown> {
+  type.resolveAll();
+
+  const result: Record<string, unknown> = {};
+  Object.entries(obj).forEach(([key, value]) => {
+    const field = type.fields[key];
+    // Field not found in type, keep as is
+    result[key] = field ? normalizeField(value, field) : value;
+  });
+  return result;
+}
+
+function normalizeField(value: unknown, field: Field): unknown {
+  if (field instanceof MapField) {
+    if (!isPlainObject(value)) return value;
+    const map: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entryValue]) => {
+      map[normalizeMapKey(key, field.keyType)] = normalizeValue(entryValue, field);
+    });
+    return map;
+  }
+
+  if (field.repeated && Array.isArray(value)) {
+    return value.map((item) => normalizeValue(item, field));
+  }
+
+  return normalizeValue(value, field);
+}
+
+function normalizeValue(value: unknown, field: Field): unknown {
+  const resolvedType = field.resolvedType;
+
+  if (resolvedType instanceof Enum) {
+    if (typeof value === 'string' && resolvedType.values[value] !== undefined) {
+      return resolvedType.values[value];
+    }
+    return value;
+  }
+
+  if (resolvedType instanceof Type) {
+    const isWrapper = WRAPPER_TYPES.has(resolvedType.fullName.replace(/^\./, ''));
+    if (isWrapper && value !== null && value !== undefined && !isPlainObject(value)) {
+      return normalizeMessage({ value }, resolvedType);
+    }
+    return isPlainObject(value) ? normalizeMessage(value, resolvedType) : value;
+  }
+
+  if (field.type === 'bytes' && typeof value === 'string' && !isValidBase64(value)) {
+    return uint8ArrayToBase64(new TextEncoder().encode(value));
+  }
+
+  return value;
+}
+
+function normalizeMapKey(key: string, keyType: string): string {
+  const trimmed = key.trim();
+  if (INTEGER_KEY_TYPES.has(keyType) && /^-?\d+$/.test(trimmed)) {
+    return BigInt(trimmed).toString();
+  }
+  if (keyType === 'bool' && /^(true|false)$/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  return key;
+}
@@ -0,0 +1,618 @@
+import { Type, Enum, Field, MapField, util } from 'protobufjs';
+import { uint8ArrayToBase64 } from './binaryEncoding';
+import { bigIntToLong, resolveTypeUrl, TYPE_URL_PREFIX } from './proto3Json';
+
+/**
+ * Parser for the protobuf text format (ProtoText)
+ * https://protobuf.dev/reference/protobuf/textformat-spec/
+ *
+ * Produces a plain object in the shape type.fromObject accepts (enum names, base64 bytes,
+ * Long-like 64-bit values), so the result can go through the regular normalize → verify → encode pipeline
+ * Expanded Any values are packed into {type_url, value} while parsing
+ */
+
+export class ProtoTextParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'ProtoTextParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type TokenKind = 'identifier' | 'number' | 'string' | 'symbol' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  /** Decoded bytes for string tokens */
+  bytes?: Uint8Array;
+  line: number;
+  column: number;
+}
+
+const SIMPLE_ESCAPES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  f: 0x0c,
+  n: 0x0a,
+  r: 0x0d,
+  t: 0x09,
+  v: 0x0b,
+  '\\': 0x5c,
+  "'": 0x27,
+  '"': 0x22,
+  '?': 0x3f,
+};
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const encoder = new TextEncoder();
+  let pos = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (text[pos] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      pos++;
+    }
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      advance();
+      continue;
+    }
+
+    // Comments run to the end of the line
+    if (char === '#') {
+      while (pos < text.length && text[pos] !== '\n') advance();
+      continue;
+    }
+
+    const startLine = line;
+    const startColumn = column;
+    const startPos = pos;
+
+    // Identifiers (field names, enum values, true/false, inf/nan)
+    const identifier = /^[A-Za-z_][\w]*/.exec(text.substring(pos, pos + 256));
+    if (identifier) {
+      tokens.push({ kind: 'identifier', text: identifier[0], line: startLine, column: startColumn });
+      advance(identifier[0].length);
+      continue;
+    }
+
+    // Numbers: decimal, hex, octal and floats with an optional f suffix
+    const number = /^(0[xX][0-9a-fA-F]+|(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?[fF]?)/.exec(
+      text.substring(pos, pos + 256)
+    );
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], line: startLine, column: startColumn });
+      advance(number[0].length);
+      continue;
+    }
+
+    // Strings, single or double quoted, with C-style escapes
+    if (char === '"' || char === "'") {
+      const quote = char;
+      const bytes: number[] = [];
+      advance();
+
+      while (true) {
+        if (pos >= text.length || text[pos] === '\n') {
+          throw new ProtoTextParseError('Unterminated string', startLine, startColumn);
+        }
+        const current = text[pos];
+        if (current === quote) {
+          advance();
+          break;
+        }
+
+        if (current !== '\\') {
+          const codePoint = text.codePointAt(pos)!;
+          const literal = String.fromCodePoint(codePoint);
+          bytes.push(...encoder.encode(literal));
+          advance(literal.length);
+          continue;
+        }
+
+        const escapeLine = line;
+        const escapeColumn = column;
+        advance();
+        const escape = text[pos];
+
+        if (escape in SIMPLE_ESCAPES) {
+          bytes.push(SIMPLE_ESCAPES[escape]);
+          advance();
+        } else if (/[0-7]/.test(escape)) {
+          const octal = /^[0-7]{1,3}/.exec(text.substring(pos, pos + 3))![0];
+          bytes.push(parseInt(octal, 8) & 0xff);
+          advance(octal.length);
+        } else if (escape === 'x' || escape === 'X') {
+          const hex = /^[0-9a-fA-F]{1,2}/.exec(text.substring(pos + 1, pos + 3));
+          if (!hex) throw new ProtoTextParseError('Invalid \\x escape', escapeLine, escapeColumn);
+          bytes.push(parseInt(hex[0], 16));
+          advance(1 + hex[0].length);
+        } else if (escape === 'u' || escape === 'U') {
+          const length = escape === 'u' ? 4 : 8;
+          const hex = text.substring(pos + 1, pos + 1 + length);
+          if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+            throw new ProtoTextParseError(`Invalid \\${escape} escape`, escapeLine, escapeColumn);
+          }
+          bytes.push(...encoder.encode(String.fromCodePoint(parseInt(hex, 16))));
+          advance(1 + length);
+        } else {
+          throw new ProtoTextParseError(`Invalid escape sequence \\${escape ?? ''}`, escapeLine, escapeColumn);
+        }
+      }
+
+      tokens.push({
+        kind: 'string',
+        text: text.substring(startPos, pos),
+        bytes: new Uint8Array(bytes),
+        line: startLine,
+        column: startColumn,
+      });
+      continue;
+    }
+
+    if ('{}<>[]:;,-/.'.includes(char)) {
+      tokens.push({ kind: 'symbol', text: char, line: startLine, column: startColumn });
+      advance();
+      continue;
+    }
+
+    throw new ProtoTextParseError(`Unexpected character '${char}'`, startLine, startColumn);
+  }
+
+  tokens.push({ kind: 'eof', text: '', line, column });
+  return tokens;
+}
+
+const INT_RANGES: Record<string, [number, number]> = {
+  int32: [-0x80000000, 0x7fffffff],
+  sint32: [-0x80000000, 0x7fffffff],
+  sfixed32: [-0x80000000, 0x7fffffff],
+  uint32: [0, 0xffffffff],
+  fixed32: [0, 0xffffffff],
+};
+
+const INT64_RANGES: Record<string, [bigint, bigint]> = {
+  int64: [-(2n ** 63n), 2n ** 63n - 1n],
+  sint64: [-(2n ** 63n), 2n ** 63n - 1n],
+  sfixed64: [-(2n ** 63n), 2n ** 63n - 1n],
+  uint64: [0n, 2n ** 64n - 1n],
+  fixed64: [0n, 2n ** 64n - 1n],
+};
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private utf8 = new TextDecoder('utf-8', { fatal: true });
+
+  constructor(text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  private error(message: string, token: Token = this.peek()): never {
+    throw new ProtoTextParseError(message, token.line, token.column);
+  }
+
+  private isSymbol(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'symbol' && token.text === text;
+  }
+
+  private expectSymbol(text: string) {
+    if (!this.isSymbol(text)) {
+      const token = this.peek();
+      this.error(`Expected '${text}' but found ${describe(token)}`);
+    }
+    this.next();
+  }
+
+  private skipSeparator() {
+    if (this.isSymbol(',') || this.isSymbol(';')) this.next();
+  }
+
+  parseDocument(type: Type): Record<string, unknown> {
+    const result = this.parseFields(type, null);
+    if (this.peek().kind !== 'eof') {
+      this.error(`Unexpected '${this.peek().text}'`);
+    }
+    return result;
+  }
+
+  /**
+   * Parses fields until the closing delimiter (or end of input for the top level)
+   */
+  private parseFields(type: Type, closing: string | null): Record<string, unknown> {
+    type.resolveAll();
+    const result: Record<string, unknown> = {};
+    const setOneofs = new Map<string, string>();
+
+    while (true) {
+      const token = this.peek();
+      if (closing === null ? token.kind === 'eof' : this.isSymbol(closing)) break;
+      if (token.kind === 'eof') this.error(`Expected '${closing}' but found end of input`);
+
+      if (this.isSymbol('[')) {
+        if (type.fullName !== '.google.protobuf.Any') {
+          this.error('Extensions are not supported');
+        }
+        this.parseAnyExpansion(type, result);
+        this.skipSeparator();
+        continue;
+      }
+      if (token.kind !== 'identifier') {
+        this.error(`Expected field name but found ${describe(token)}`);
+      }
+
+      this.next();
+      const field = findProtoTextField(type, token.text);
+      if (!field) {
+        this.error(`Unknown field '${token.text}' in ${type.name}`, token);
+      }
+
+      // Only one member of a oneof may be set
+      if (field.partOf) {
+        const previous = setOneofs.get(field.partOf.name);
+        if (previous && previous !== field.name) {
+          this.error(`Field '${field.name}' conflicts with '${previous}' in oneof '${field.partOf.name}'`, token);
+        }
+        setOneofs.set(field.partOf.name, field.name);
+      }
+
+      this.parseFieldValue(field, result, token);
+      this.skipSeparator();
+    }
+
+    return result;
+  }
+
+  private parseFieldValue(field: Field, result: Record<string, unknown>, nameToken: Token) {
+    const isMessage = field instanceof MapField || field.resolvedType instanceof Type;
+
+    if (isMessage) {
+      // The colon is optional before a message value
+      if (this.isSymbol(':')) this.next();
+    } else {
+      this.expectSymbol(':');
+    }
+
+    // List syntax: field: [a, b, c]
+    if (this.isSymbol('[')) {
+      if (!field.repeated && !(field instanceof MapField)) {
+        this.error(`Field '${field.name}' is not repeated`);
+      }
+      this.next();
+      while (!this.isSymbol(']')) {
+        this.addValue(field, result, nameToken);
+        if (this.isSymbol(',')) {
+          this.next();
+        } else if (!this.isSymbol(']')) {
+          this.error(`Expected ',' or ']' but found ${describe(this.peek())}`);
+        }
+      }
+      this.next();
+      return;
+    }
+
+    this.addValue(field, result, nameToken);
+  }
+
+  private addValue(field: Field, result: Record<string, unknown>, nameToken: Token) {
+    if (field instanceof MapField) {
+      const entry = this.parseMapEntry(field);
+      const map = (result[field.name] as Record<string, unknown>) ?? {};
+      map[entry.key] = entry.value;
+      result[field.name] = map;
+      return;
+    }
+
+    const value = this.parseSingleValue(field);
+
+    if (field.repeated) {
+      const list = (result[field.name] as unknown[]) ?? [];
+      list.push(value);
+      result[field.name] = list;
+      return;
+    }
+
+    if (field.name in result) {
+      this.error(`Non-repeated field '${field.name}' is set more than once`, nameToken);
+    }
+    result[field.name] = value;
+  }
+
+  /**
+   * Parses an expanded Any, [type.googleapis.com/package.Message] { ... }, and packs it
+   */
+  private parseAnyExpansion(anyType: Type, result: Record<string, unknown>) {
+    const start = this.next();
+    let typeUrl = '';
+    while (!this.isSymbol(']')) {
+      const token = this.next();
+      if (token.kind === 'eof' || token.kind === 'string') {
+        this.error(`Expected ']' but found ${describe(token)}`, token);
+      }
+      typeUrl += token.text;
+    }
+    this.next();
+
+    if (!typeUrl.includes('/')) {
+      this.error(`Extensions are not supported, expected a type URL like [${TYPE_URL_PREFIX}package.Message]`, start);
+    }
+    if (Object.keys(result).length > 0) {
+      this.error('Any holds a single message, the expanded form cannot be combined with other fields', start);
+    }
+
+    const innerType = resolveTypeUrl(anyType, typeUrl);
+    if (!innerType) {
+      const typeName = typeUrl.substring(typeUrl.lastIndexOf('/') + 1);
+      this.error(`Unknown type '${typeName}' in Any, load the .proto file that defines it`, start);
+    }
+
+    if (this.isSymbol(':')) this.next();
+    const inner = this.parseMessageValue(innerType);
+    const bytes = innerType.encode(innerType.fromObject(inner)).finish();
+
+    result[findProtoTextField(anyType, 'type_url')!.name] = typeUrl;
+    result[findProtoTextField(anyType, 'value')!.name] = uint8ArrayToBase64(bytes);
+  }
+
+  private parseMessageValue(type: Type): Record<string, unknown> {
+    let closing: string;
+    if (this.isSymbol('{')) {
+      closing = '}';
+    } else if (this.isSymbol('<')) {
+      closing = '>';
+    } else {
+      this.error(`Expected '{' or '<' to start ${type.name}`);
+    }
+    this.next();
+    const value = this.parseFields(type, closing);
+    this.expectSymbol(closing);
+    return value;
+  }
+
+  private parseMapEntry(field: MapField): { key: string; value: unknown } {
+    let closing: string;
+    if (this.isSymbol('{')) {
+      closing = '}';
+    } else if (this.isSymbol('<')) {
+      closing = '>';
+    } else {
+      this.error(`Expected '{' or '<' to start a map entry`);
+    }
+    this.next();
+
+    let key: unknown;
+    let value: unknown;
+
+    while (!this.isSymbol(closing)) {
+      const token = this.next();
+      if (token.kind !== 'identifier' || (token.text !== 'key' && token.text !== 'value')) {
+        this.error(`Expected 'key' or 'value' in map entry but found ${describe(token)}`, token);
+      }
+
+      if (token.text === 'key') {
+        this.expectSymbol(':');
+        key = this.parseScalar(field.keyType, null);
+      } else if (field.resolvedType instanceof Type) {
+        if (this.isSymbol(':')) this.next();
+        value = this.parseMessageValue(field.resolvedType);
+      } else {
+        this.expectSymbol(':');
+        value = this.parseScalar(field.type, field.resolvedType instanceof Enum ? field.resolvedType : null);
+      }
+      this.skipSeparator();
+    }
+    this.next();
+
+    // Missing key or value means the zero value
+    if (key === undefined) {
+      key = field.keyType === 'string' ? '' : field.keyType === 'bool' ? false : 0;
+    }
+    if (value === undefined) {
+      value = field.resolvedType instanceof Type ? {} : zeroValue(field);
+    }
+
+    return { key: String(key), value };
+  }
+
+  private parseSingleValue(field: Field): unknown {
+    if (field.resolvedType instanceof Type) {
+      return this.parseMessageValue(field.resolvedType);
+    }
+    return this.parseScalar(field.type, field.resolvedType instanceof Enum ? field.resolvedType : null);
+  }
+
+  private parseScalar(protoType: string, enumType: Enum | null): unknown {
+    const token = this.peek();
+
+    if (enumType) {
+      if (token.kind === 'identifier') {
+        this.next();
+        if (enumType.values[token.text] === undefined) {
+          this.error(`Unknown value '${token.text}' for enum ${enumType.name}`, token);
+        }
+        return token.text;
+      }
+      return Number(this.parseInteger('int32', token));
+    }
+
+    switch (protoType) {
+      case 'string': {
+        const bytes = this.parseStringBytes();
+        try {
+          return this.utf8.decode(bytes);
+        } catch {
+          this.error('String field contains invalid UTF-8, use a bytes field for binary data', token);
+        }
+        break;
+      }
+
+      case 'bytes':
+        return uint8ArrayToBase64(this.parseStringBytes());
+
+      case 'bool': {
+        this.next();
+        if (token.kind === 'identifier' && ['true', 'True', 't'].includes(token.text)) return true;
+        if (token.kind === 'identifier' && ['false', 'False', 'f'].includes(token.text)) return false;
+        if (token.kind === 'number' && (token.text === '1' || token.text === '0')) return token.text === '1';
+        this.error(`Expected a boolean but found ${describe(token)}`, token);
+        break;
+      }
+
+      case 'float':
+      case 'double':
+        return this.parseFloat();
+
+      default: {
+        const value = this.parseInteger(protoType, token);
+        // 64-bit values beyond 2^53 become Long-like values so no precision is lost
+        if (Number.isSafeInteger(Number(value))) return Number(value);
+        return bigIntToLong(value, protoType === 'uint64' || protoType === 'fixed64');
+      }
+    }
+  }
+
+  private parseStringBytes(): Uint8Array {
+    const first = this.peek();
+    if (first.kind !== 'string') {
+      this.error(`Expected a string but found ${describe(first)}`);
+    }
+
+    // Adjacent string literals are concatenated
+    const parts: Uint8Array[] = [];
+    while (this.peek().kind === 'string') {
+      parts.push(this.next().bytes!);
+    }
+
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  }
+
+  private parseFloat(): number {
+    const start = this.peek();
+    let negative = false;
+    if (this.isSymbol('-')) {
+      negative = true;
+      this.next();
+    }
+
+    const token = this.next();
+    if (token.kind === 'identifier') {
+      const lower = token.text.toLowerCase();
+      if (lower === 'inf' || lower === 'infinity') return negative ? -Infinity : Infinity;
+      if (lower === 'nan') return NaN;
+    }
+    if (token.kind !== 'number') {
+      this.error(`Expected a number but found ${describe(token)}`, start);
+    }
+
+    const text = token.text.replace(/[fF]$/, '');
+    const value = /^0[xX]/.test(text) ? parseInt(text, 16) : Number(text);
+    return negative ? -value : value;
+  }
+
+  private parseInteger(protoType: string, start: Token): bigint {
+    let negative = false;
+    if (this.isSymbol('-')) {
+      negative = true;
+      this.next();
+    }
+
+    const token = this.next();
+    if (token.kind !== 'number' || /[.eEfF]/.test(token.text.replace(/^0[xX][0-9a-fA-F]+$/, ''))) {
+      this.error(`Expected an integer but found ${describe(token)}`, start);
+    }
+
+    let value: bigint;
+    if (/^0[xX]/.test(token.text)) {
+      value = BigInt(token.text);
+    } else if (/^0[0-7]+$/.test(token.text)) {
+      value = BigInt(`0o${token.text.substring(1)}`);
+    } else {
+      value = BigInt(token.text);
+    }
+    if (negative) value = -value;
+
+    const range = INT_RANGES[protoType];
+    if (range && (value < BigInt(range[0]) || value > BigInt(range[1]))) {
+      this.error(`Value ${value} is out of range for ${protoType}`, start);
+    }
+    const range64 = INT64_RANGES[protoType];
+    if (range64 && (value < range64[0] || value > range64[1])) {
+      this.error(`Value ${value} is out of range for ${protoType}`, start);
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Looks up a field by the name used in ProtoText: the .proto name, the camelCase name
+ * or the type name of a group field
+ */
+export function findProtoTextField(type: Type, name: string): Field | null {
+  if (type.fields[name]) return type.fields[name];
+  // Text format uses the .proto field name, the editor uses camelCase
+  const camel = util.camelCase(name);
+  if (type.fields[camel]) return type.fields[camel];
+  // Group fields are referenced by their type name
+  return type.fieldsArray.find((field) => field.name.toLowerCase() === name.toLowerCase()) ?? null;
+}
+
+function describe(token: Token): string {
+  return token.kind === 'eof' ? 'end of input' : `'${token.text}'`;
+}
+
+function zeroValue(field: { type: string }): unknown {
+  switch (field.type) {
+    case 'string':
+    case 'bytes':
+      return '';
+    case 'bool':
+      return false;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Parses ProtoText into a plain object for the given message type
+ * Throws ProtoTextParseError with the line and column of the first problem
+ */
+export function parseProtoText(text: string, type: Type): Record<string, unknown> {
+  return new Parser(text).parseDocument(type);
+}
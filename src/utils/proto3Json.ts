@@ -0,0 +1,538 @@
+import { Type, Enum, Field, MapField, Message, util } from 'protobufjs';
+import { base64ToUint8Array, uint8ArrayToBase64 } from './binaryEncoding';
+import { isUrlSafeBase64, normalizeMessage, WRAPPER_TYPES } from './normalizeMessage';
+
+/**
+ * Canonical proto3 JSON mapping
+ * https://protobuf.dev/programming-guides/json/
+ *
+ * fromProto3Json turns canonical JSON into the shape protobufjs fromObject/verify expect,
+ * messageToProto3Json turns a decoded message into canonical JSON.
+ * The older protobufjs shapes ({seconds, nanos}, {value}, {typeUrl, value}) are still accepted as input
+ */
+
+// Prefix used for the type URLs of packed Any messages
+export const TYPE_URL_PREFIX = 'type.googleapis.com/';
+
+const LONG_TYPES = new Set(['int64', 'uint64', 'sint64', 'fixed64', 'sfixed64']);
+const UNSIGNED_LONG_TYPES = new Set(['uint64', 'fixed64']);
+const INT_TYPES = new Set(['int32', 'uint32', 'sint32', 'fixed32', 'sfixed32']);
+
+// Well-known types whose JSON form isn't an object with fields; inside Any they go under "value"
+export const SPECIAL_JSON_TYPES = new Set([
+  ...WRAPPER_TYPES,
+  'google.protobuf.Timestamp',
+  'google.protobuf.Duration',
+  'google.protobuf.FieldMask',
+  'google.protobuf.Struct',
+  'google.protobuf.Value',
+  'google.protobuf.ListValue',
+]);
+
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[Tt](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?([Zz]|[+-]\d{2}:\d{2})$/;
+const DURATION_PATTERN = /^(-)?(\d+)(?:\.(\d{1,9}))?s$/;
+
+// Timestamp range allowed by the spec: 0001-01-01T00:00:00Z to 9999-12-31T23:59:59Z
+const MIN_TIMESTAMP_SECONDS = -62135596800;
+const MAX_TIMESTAMP_SECONDS = 253402300799;
+// About 10,000 years, the range of the proto3 JSON mapping
+const MAX_DURATION_SECONDS = 315576000000n;
+
+const fullNameOf = (type: { fullName: string }): string => type.fullName.replace(/^\./, '');
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * JSON name of a field: its `json_name` option, lowerCamelCase otherwise
+ */
+export function jsonNameOf(field: Field): string {
+  return (field.options?.json_name as string | undefined) ?? util.camelCase(field.name);
+}
+
+/**
+ * Looks up a field by its JSON name (`json_name` or lowerCamelCase) or its .proto name
+ * Types from protobufjs' bundled well-known definitions keep snake_case names (Any.type_url)
+ */
+export function findJsonField(type: Type, key: string): Field | null {
+  const jsonName = util.camelCase(key);
+  return (
+    type.fields[key] ??
+    type.fieldsArray.find((field) => field.options?.json_name === key) ??
+    type.fieldsArray.find((field) => util.camelCase(field.name) === jsonName) ??
+    null
+  );
+}
+
+/**
+ * Converts a 64-bit integer string to a Long (or a number when long.js isn't available)
+ */
+function parseLong(value: string, protoType: string, path: string): unknown {
+  const unsigned = UNSIGNED_LONG_TYPES.has(protoType);
+  const parsed = BigInt(value);
+  const [min, max] = unsigned ? [0n, 2n ** 64n - 1n] : [-(2n ** 63n), 2n ** 63n - 1n];
+  if (parsed < min || parsed > max) {
+    throw new Error(`${path}: ${value} is out of range for ${protoType}`);
+  }
+  return bigIntToLong(parsed, unsigned);
+}
+
+/**
+ * Converts a 64-bit integer to the Long-like value protobufjs accepts in verify and fromObject
+ */
+export function bigIntToLong(value: bigint, unsigned: boolean): unknown {
+  const bits = BigInt.asUintN(64, value);
+  return new util.LongBits(Number(bits & 0xffffffffn), Number(bits >> 32n)).toLong(unsigned);
+}
+
+// --- Canonical JSON → protobufjs object ---
+
+/**
+ * Converts canonical proto3 JSON into a plain object accepted by type.verify and type.fromObject
+ * Throws an Error describing the first value that doesn't fit the mapping
+ */
+export function fromProto3Json(json: unknown, type: Type): Record<string, unknown> {
+  type.resolveAll();
+  const result = messageFromJson(json, type, '');
+  return isPlainObject(result) ? result : {};
+}
+
+function messageFromJson(value: unknown, type: Type, path: string): unknown {
+  const fullName = fullNameOf(type);
+
+  if (SPECIAL_JSON_TYPES.has(fullName) || fullName === 'google.protobuf.Any') {
+    return wellKnownFromJson(value, type, fullName, path);
+  }
+
+  if (!isPlainObject(value)) {
+    // Let verify report the type mismatch
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    const field = findJsonField(type, key);
+
+    // Unknown fields are kept as is
+    if (!field) {
+      result[key] = fieldValue;
+      return;
+    }
+
+    // null means the field is not set, except for google.protobuf.Value where it is the JSON null
+    const isValueField = field.resolvedType instanceof Type && fullNameOf(field.resolvedType) === 'google.protobuf.Value';
+    if (fieldValue === null && !isValueField) return;
+
+    result[field.name] = fieldFromJson(fieldValue, field, path ? `${path}.${field.name}` : field.name);
+  });
+
+  return result;
+}
+
+function fieldFromJson(value: unknown, field: Field, path: string): unknown {
+  if (field instanceof MapField) {
+    if (!isPlainObject(value)) return value;
+    const map: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entryValue]) => {
+      map[key] = singleFromJson(entryValue, field, `${path}[${JSON.stringify(key)}]`);
+    });
+    return map;
+  }
+
+  if (field.repeated) {
+    if (!Array.isArray(value)) return value;
+    return value.map((item, index) => singleFromJson(item, field, `${path}[${index}]`));
+  }
+
+  return singleFromJson(value, field, path);
+}
+
+function singleFromJson(value: unknown, field: Field, path: string): unknown {
+  if (field.resolvedType instanceof Type) {
+    return messageFromJson(value, field.resolvedType, path);
+  }
+  if (field.resolvedType instanceof Enum) {
+    // google.protobuf.NullValue is written as null
+    return value === null ? 0 : value;
+  }
+  return scalarFromJson(value, field.type, path);
+}
+
+function scalarFromJson(value: unknown, protoType: string, path: string): unknown {
+  if (LONG_TYPES.has(protoType)) {
+    // 64-bit integers are strings in proto3 JSON, numbers are accepted too
+    if (typeof value === 'string') {
+      if (!/^-?\d+$/.test(value.trim())) {
+        throw new Error(`${path}: "${value}" is not a valid ${protoType}`);
+      }
+      return parseLong(value.trim(), protoType, path);
+    }
+    return value;
+  }
+
+  if (INT_TYPES.has(protoType) && typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+    return Number(value);
+  }
+
+  if (protoType === 'double' || protoType === 'float') {
+    if (value === 'NaN' || value === 'Infinity' || value === '-Infinity') {
+      return Number(value);
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+
+  // URL-safe base64 is allowed for bytes
+  if (protoType === 'bytes' && typeof value === 'string' && isUrlSafeBase64(value)) {
+    return uint8ArrayToBase64(base64ToUint8Array(value));
+  }
+
+  return value;
+}
+
+function wellKnownFromJson(value: unknown, type: Type, fullName: string, path: string): unknown {
+  // protobufjs object forms are still accepted (except for Value/Struct/ListValue, where objects are data)
+  const acceptsObjectForm = !['google.protobuf.Struct', 'google.protobuf.Value', 'google.protobuf.ListValue', 'google.protobuf.Any'].includes(fullName);
+  if (acceptsObjectForm && isPlainObject(value)) {
+    return genericMessageFromJson(value, type, path);
+  }
+
+  if (WRAPPER_TYPES.has(fullName)) {
+    return { value: scalarFromJson(value, type.fields.value.type, path) };
+  }
+
+  switch (fullName) {
+    case 'google.protobuf.Timestamp':
+      return timestampFromJson(value, path);
+    case 'google.protobuf.Duration':
+      return durationFromJson(value, path);
+    case 'google.protobuf.FieldMask':
+      return fieldMaskFromJson(value, path);
+    case 'google.protobuf.Struct':
+      if (!isPlainObject(value)) throw new Error(`${path}: Struct must be a JSON object`);
+      return structFromJson(value);
+    case 'google.protobuf.ListValue':
+      if (!Array.isArray(value)) throw new Error(`${path}: ListValue must be a JSON array`);
+      return { values: value.map(valueFromJson) };
+    case 'google.protobuf.Value':
+      return valueFromJson(value);
+    case 'google.protobuf.Any':
+      return anyFromJson(value, type, path);
+    default:
+      return value;
+  }
+}
+
+// Walks a well-known type written in its protobufjs object form
+function genericMessageFromJson(value: Record<string, unknown>, type: Type, path: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    const field = findJsonField(type, key);
+    result[field ? field.name : key] = field ? fieldFromJson(fieldValue, field, `${path}.${field.name}`) : fieldValue;
+  });
+  return result;
+}
+
+function timestampFromJson(value: unknown, path: string): Record<string, unknown> {
+  const match = typeof value === 'string' ? TIMESTAMP_PATTERN.exec(value) : null;
+  if (!match) {
+    throw new Error(`${path}: Timestamp must be an RFC 3339 string like "2024-01-01T00:00:00Z"`);
+  }
+
+  const [, year, month, day, hour, minute, second, fraction, offset] = match;
+  const date = new Date(Date.UTC(2000, Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+  // Date.UTC maps years 0-99 to 1900-1999
+  date.setUTCFullYear(Number(year));
+
+  // Date rolls out-of-range parts over (February 30th becomes March 2nd), so they come back changed
+  const parts = [
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+  ];
+  if (parts.join() !== [year, month, day, hour, minute, second].map(Number).join()) {
+    throw new Error(`${path}: "${value}" is not a valid date and time`);
+  }
+
+  let seconds = Math.floor(date.getTime() / 1000);
+  if (offset !== 'Z' && offset !== 'z') {
+    const sign = offset[0] === '-' ? -1 : 1;
+    const [offsetHours, offsetMinutes] = offset.substring(1).split(':').map(Number);
+    if (offsetHours > 23 || offsetMinutes > 59) {
+      throw new Error(`${path}: "${offset}" is not a valid UTC offset`);
+    }
+    seconds -= sign * (offsetHours * 3600 + offsetMinutes * 60);
+  }
+
+  if (seconds < MIN_TIMESTAMP_SECONDS || seconds > MAX_TIMESTAMP_SECONDS) {
+    throw new Error(`${path}: Timestamp must be between 0001-01-01 and 9999-12-31`);
+  }
+
+  return { seconds, nanos: fraction ? Number(fraction.padEnd(9, '0')) : 0 };
+}
+
+function durationFromJson(value: unknown, path: string): Record<string, unknown> {
+  const match = typeof value === 'string' ? DURATION_PATTERN.exec(value) : null;
+  if (!match) {
+    throw new Error(`${path}: Duration must be a string like "1.5s"`);
+  }
+
+  const [, negative, whole, fraction] = match;
+  if (BigInt(whole) > MAX_DURATION_SECONDS) {
+    throw new Error(`${path}: Duration must be between -${MAX_DURATION_SECONDS}s and ${MAX_DURATION_SECONDS}s`);
+  }
+  const sign = negative ? -1 : 1;
+  const nanos = fraction ? Number(fraction.padEnd(9, '0')) : 0;
+  return {
+    seconds: parseLong(`${negative ?? ''}${whole}`, 'int64', path),
+    nanos: nanos === 0 ? 0 : sign * nanos,
+  };
+}
+
+function fieldMaskFromJson(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'string') {
+    throw new Error(`${path}: FieldMask must be a comma-separated string like "name,address.city"`);
+  }
+
+  // JSON paths are lowerCamelCase, the message holds the .proto snake_case names
+  const paths = value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+    .map((item) => item.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`));
+  return { paths };
+}
+
+function structFromJson(value: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    fields[key] = valueFromJson(fieldValue);
+  });
+  return { fields };
+}
+
+function valueFromJson(value: unknown): Record<string, unknown> {
+  if (value === null) return { nullValue: 0 };
+  if (typeof value === 'number') return { numberValue: value };
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (Array.isArray(value)) return { listValue: { values: value.map(valueFromJson) } };
+  return { structValue: structFromJson(value as Record<string, unknown>) };
+}
+
+function anyFromJson(value: unknown, anyType: Type, path: string): unknown {
+  if (!isPlainObject(value)) {
+    throw new Error(`${path}: Any must be a JSON object with "@type"`);
+  }
+
+  const typeUrl = value['@type'];
+  if (typeUrl === undefined) {
+    // protobufjs form {typeUrl, value} or an empty Any
+    return genericMessageFromJson(value, anyType, path);
+  }
+  if (typeof typeUrl !== 'string' || !typeUrl.includes('/')) {
+    throw new Error(`${path}: "@type" must be a type URL like "type.googleapis.com/package.Message"`);
+  }
+
+  const innerType = resolveTypeUrl(anyType, typeUrl);
+  if (!innerType) {
+    throw new Error(`${path}: Unknown type "${typeUrl.substring(typeUrl.lastIndexOf('/') + 1)}" in Any, load the .proto file that defines it`);
+  }
+
+  const innerName = fullNameOf(innerType);
+  let inner: unknown;
+  if (SPECIAL_JSON_TYPES.has(innerName)) {
+    inner = wellKnownFromJson(value.value, innerType, innerName, `${path}.value`);
+  } else {
+    const fields = { ...value };
+    delete fields['@type'];
+    inner = messageFromJson(fields, innerType, path);
+  }
+
+  const normalized = normalizeMessage(inner as Record<string, unknown>, innerType);
+  const verifyError = innerType.verify(normalized);
+  if (verifyError) {
+    throw new Error(`${path} (${innerName}): ${verifyError}`);
+  }
+
+  const bytes = innerType.encode(innerType.fromObject(normalized)).finish();
+  return { [findJsonField(anyType, 'typeUrl')!.name]: typeUrl, value: uint8ArrayToBase64(bytes) };
+}
+
+/**
+ * Finds the message type named by the last segment of an Any type URL
+ */
+export function resolveTypeUrl(anyType: Type, typeUrl: string): Type | null {
+  const typeName = typeUrl.substring(typeUrl.lastIndexOf('/') + 1);
+  try {
+    const found = anyType.root.lookup(typeName.startsWith('.') ? typeName : `.${typeName}`);
+    if (found instanceof Type) {
+      found.resolveAll();
+      return found;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// --- protobufjs message → canonical JSON ---
+
+/**
+ * Returns the decimal form of a map key
+ * With long.js loaded, decoded maps with 64-bit keys are keyed by protobufjs' 8-character long hashes
+ */
+export function mapKeyToString(key: string, keyType: string): string {
+  if (!LONG_TYPES.has(keyType) || !util.Long || /^-?\d+$/.test(key)) {
+    return key;
+  }
+  return util.LongBits.fromHash(key).toLong(UNSIGNED_LONG_TYPES.has(keyType)).toString();
+}
+
+/**
+ * Converts a decoded message into canonical proto3 JSON
+ */
+export function messageToProto3Json(message: Message, type: Type): Record<string, unknown> {
+  type.resolveAll();
+  const obj = type.toObject(message, { enums: String, longs: String, bytes: String });
+  const result = messageToJson(obj, type);
+  return isPlainObject(result) ? result : {};
+}
+
+function messageToJson(obj: Record<string, unknown>, type: Type): unknown {
+  const fullName = fullNameOf(type);
+  if (SPECIAL_JSON_TYPES.has(fullName) || fullName === 'google.protobuf.Any') {
+    return wellKnownToJson(obj, type, fullName);
+  }
+
+  const result: Record<string, unknown> = {};
+  type.fieldsArray.forEach((field) => {
+    const value = obj[field.name];
+    if (value === undefined || value === null) return;
+
+    if (field instanceof MapField) {
+      const map: Record<string, unknown> = {};
+      Object.entries(value as Record<string, unknown>).forEach(([key, entryValue]) => {
+        map[mapKeyToString(key, field.keyType)] = singleToJson(entryValue, field);
+      });
+      result[jsonNameOf(field)] = map;
+    } else if (field.repeated) {
+      result[jsonNameOf(field)] = (value as unknown[]).map((item) => singleToJson(item, field));
+    } else {
+      result[jsonNameOf(field)] = singleToJson(value, field);
+    }
+  });
+  return result;
+}
+
+function singleToJson(value: unknown, field: Field): unknown {
+  if (field.resolvedType instanceof Type) {
+    return messageToJson(value as Record<string, unknown>, field.resolvedType);
+  }
+  if (field.resolvedType instanceof Enum && fullNameOf(field.resolvedType) === 'google.protobuf.NullValue') {
+    return null;
+  }
+  return scalarToJson(value);
+}
+
+function scalarToJson(value: unknown): unknown {
+  // NaN and Infinity have no JSON literal
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return String(value);
+  }
+  return value;
+}
+
+function wellKnownToJson(obj: Record<string, unknown>, type: Type, fullName: string): unknown {
+  if (WRAPPER_TYPES.has(fullName)) {
+    const value = obj.value;
+    if (value !== undefined) return scalarToJson(value);
+    // Unset value means the zero value
+    const valueType = type.fields.value.type;
+    if (valueType === 'bool') return false;
+    if (valueType === 'string' || valueType === 'bytes') return '';
+    return LONG_TYPES.has(valueType) ? '0' : 0;
+  }
+
+  switch (fullName) {
+    case 'google.protobuf.Timestamp':
+      return timestampToJson(Number(obj.seconds ?? 0), Number(obj.nanos ?? 0));
+    case 'google.protobuf.Duration':
+      return durationToJson(String(obj.seconds ?? '0'), Number(obj.nanos ?? 0));
+    case 'google.protobuf.FieldMask':
+      return ((obj.paths as string[] | undefined) ?? []).map((item) => util.camelCase(item)).join(',');
+    case 'google.protobuf.Struct':
+      return structToJson(obj);
+    case 'google.protobuf.ListValue':
+      return ((obj.values as Record<string, unknown>[] | undefined) ?? []).map(valueToJson);
+    case 'google.protobuf.Value':
+      return valueToJson(obj);
+    case 'google.protobuf.Any':
+      return anyToJson(obj, type);
+    default:
+      return obj;
+  }
+}
+
+// Fractions are written with 0, 3, 6 or 9 digits
+function formatNanos(nanos: number): string {
+  if (nanos === 0) return '';
+  if (nanos % 1000000 === 0) return `.${String(nanos / 1000000).padStart(3, '0')}`;
+  if (nanos % 1000 === 0) return `.${String(nanos / 1000).padStart(6, '0')}`;
+  return `.${String(nanos).padStart(9, '0')}`;
+}
+
+function timestampToJson(seconds: number, nanos: number): string {
+  const iso = new Date(seconds * 1000).toISOString().replace(/\.\d{3}Z$/, '');
+  return `${iso}${formatNanos(nanos)}Z`;
+}
+
+function durationToJson(seconds: string, nanos: number): string {
+  const negative = seconds.startsWith('-') || nanos < 0;
+  const wholeSeconds = seconds.replace(/^-/, '');
+  return `${negative ? '-' : ''}${wholeSeconds}${formatNanos(Math.abs(nanos))}s`;
+}
+
+function structToJson(obj: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  Object.entries((obj.fields as Record<string, Record<string, unknown>> | undefined) ?? {}).forEach(([key, value]) => {
+    result[key] = valueToJson(value);
+  });
+  return result;
+}
+
+function valueToJson(obj: Record<string, unknown>): unknown {
+  if (obj.numberValue !== undefined) return scalarToJson(obj.numberValue);
+  if (obj.stringValue !== undefined) return obj.stringValue;
+  if (obj.boolValue !== undefined) return obj.boolValue;
+  if (obj.structValue !== undefined) return structToJson(obj.structValue as Record<string, unknown>);
+  if (obj.listValue !== undefined) {
+    return ((obj.listValue as Record<string, unknown>).values as Record<string, unknown>[] | undefined ?? []).map(valueToJson);
+  }
+  return null;
+}
+
+function anyToJson(obj: Record<string, unknown>, anyType: Type): Record<string, unknown> {
+  const typeUrl = obj[findJsonField(anyType, 'typeUrl')!.name] as string | undefined;
+  if (!typeUrl) return {};
+
+  const innerType = resolveTypeUrl(anyType, typeUrl);
+  // Without the type the payload can only be shown as bytes
+  if (!innerType) return { '@type': typeUrl, value: obj.value ?? '' };
+
+  const inner = innerType.decode(base64ToUint8Array((obj.value as string | undefined) ?? ''));
+  const innerJson = messageToJson(
+    innerType.toObject(inner, { enums: String, longs: String, bytes: String }),
+    innerType
+  );
+
+  if (SPECIAL_JSON_TYPES.has(fullNameOf(innerType))) {
+    return { '@type': typeUrl, value: innerJson };
+  }
+  return { '@type': typeUrl, ...(innerJson as Record<string, unknown>) };
+}
@@ -0,0 +1,69 @@
+import { parse, Enum, Field, Root, Type, util, type ReflectionObject } from 'protobufjs';
+
+/**
+ * Leading and trailing comments of messages, fields and enum values
+ * protobufjs keeps a single comment per object: parsed with `alternateCommentMode` it takes the
+ * leading one and falls back to the trailing one. The files are parsed a second time preferring
+ * trailing comments, so an object documented both ways keeps both. That parse keeps field names
+ * as written, which the loaded root camel-cases
+ */
+
+// Root parsed from the same files with trailing comments and source names, by the root it documents
+const trailingCommentRoots = new WeakMap<Root, Root>();
+
+/**
+ * Parses the files again into a twin of `root` that holds their trailing comments and field names
+ */
+export function attachTrailingComments(root: Root, files: Map<string, string>): void {
+  const twin = new Root();
+  files.forEach((content) => {
+    try {
+      parse(content, twin, { keepCase: true, alternateCommentMode: true, preferTrailingComment: true });
+    } catch {
+      // Parse errors are reported for the main root
+    }
+  });
+  trailingCommentRoots.set(root, twin);
+}
+
+// Helper function to find the same object in the twin root: by full name, fields by their camel-cased name
+const findTwin = (object: ReflectionObject): ReflectionObject | null => {
+  const twin = object.root ? trailingCommentRoots.get(object.root) : undefined;
+  try {
+    if (object instanceof Field) {
+      const twinType = object.parent ? twin?.lookup(object.parent.fullName) : null;
+      return twinType instanceof Type
+        ? twinType.fieldsArray.find((field) => util.camelCase(field.name) === object.name) ?? null
+        : null;
+    }
+    return twin?.lookup(object.fullName) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Helper function to drop empty and repeated comments
+const distinct = (comments: (string | null | undefined)[]): string[] =>
+  comments.filter((comment, index): comment is string => !!comment && comments.indexOf(comment) === index);
+
+/**
+ * Comments of a message, enum or field: the leading one, then the trailing one
+ */
+export function getComments(object: ReflectionObject): string[] {
+  return distinct([object.comment, findTwin(object)?.comment]);
+}
+
+/**
+ * Name of a field as written in the .proto file, e.g. `display_name` for `displayName`
+ */
+export function getSourceName(field: Field): string {
+  return findTwin(field)?.name ?? field.name;
+}
+
+/**
+ * Comments of an enum value: the leading one, then the trailing one
+ */
+export function getEnumValueComments(enumType: Enum, valueName: string): string[] {
+  const twin = findTwin(enumType);
+  return distinct([enumType.comments[valueName], twin instanceof Enum ? twin.comments[valueName] : null]);
+}
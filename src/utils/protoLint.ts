@@ -0,0 +1,140 @@
+import { parse, Enum, Namespace, Root, Service, Type } from 'protobufjs';
+import type { LintProblem } from '../types/proto';
+import { createLocator, fieldDepth } from './protoSourceLocator';
+
+/**
+ * Style checks over the loaded .proto files, following the `buf lint` rules of the same name
+ * Every file is parsed on its own with its names kept as written, declarations are
+ * located in the source text to report a line
+ */
+
+export interface LintRule {
+  id: string;
+  description: string;
+}
+
+export const LINT_RULES: LintRule[] = [
+  { id: 'PACKAGE_DIRECTORY_MATCH', description: 'Files live in a directory matching their package, e.g. acme/v1 for acme.v1' },
+  { id: 'MESSAGE_PASCAL_CASE', description: 'Message names are PascalCase' },
+  { id: 'FIELD_LOWER_SNAKE_CASE', description: 'Field names are lower_snake_case' },
+  { id: 'ENUM_ZERO_VALUE_SUFFIX', description: 'The zero value of an enum ends in _UNSPECIFIED' },
+  { id: 'ENUM_VALUE_PREFIX', description: 'Enum values start with the enum name in UPPER_SNAKE_CASE' },
+  { id: 'COMMENT_MESSAGE', description: 'Messages have a leading comment' },
+  { id: 'COMMENT_ENUM', description: 'Enums have a leading comment' },
+  { id: 'COMMENT_SERVICE', description: 'Services have a leading comment' },
+  { id: 'FIELD_NUMBER_RESERVED_RANGE', description: 'Field numbers stay out of 19000-19999, reserved for the protobuf implementation' },
+];
+
+const PASCAL_CASE = /^[A-Z][a-zA-Z0-9]*$/;
+const LOWER_SNAKE_CASE = /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/;
+
+// "PhoneType" → "PHONE_TYPE", "HTTPMethod" → "HTTP_METHOD"
+const toUpperSnakeCase = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toUpperCase();
+
+function lintFile(file: string, content: string, disabledRules: Set<string>): LintProblem[] {
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(content, new Root(), { keepCase: true, alternateCommentMode: true });
+  } catch {
+    // Files that don't parse have nothing to lint
+    return [];
+  }
+
+  const problems: LintProblem[] = [];
+  const { locate } = createLocator(content);
+  const report = (rule: string, line: number, message: string, typeName?: string) => {
+    if (!disabledRules.has(rule)) {
+      problems.push({ file, line, rule, message, typeName });
+    }
+  };
+
+  // Uploaded files carry no directory, only paths with one are checked
+  const directory = file.includes('/') ? file.substring(0, file.lastIndexOf('/')) : null;
+  if (parsed.package && directory !== null && directory !== parsed.package.replace(/\./g, '/')) {
+    report(
+      'PACKAGE_DIRECTORY_MATCH',
+      locate('\\bpackage\\b').line,
+      `Package ${parsed.package} is expected in directory ${parsed.package.replace(/\./g, '/')}, not ${directory}`
+    );
+  }
+
+  const lintNamespace = (namespace: Namespace, scopeOffset: number, depth: number) => {
+    namespace.nestedArray.forEach((nested) => {
+      const fullName = nested.fullName.replace(/^\./, '');
+
+      if (nested instanceof Type) {
+        const declaration = locate(`\\bmessage\\s+${nested.name}\\b`, scopeOffset, depth);
+        if (!PASCAL_CASE.test(nested.name)) {
+          report('MESSAGE_PASCAL_CASE', declaration.line, `Message ${nested.name} should be PascalCase`, fullName);
+        }
+        if (!nested.comment) {
+          report('COMMENT_MESSAGE', declaration.line, `Message ${nested.name} has no comment`, fullName);
+        }
+
+        nested.fieldsArray.forEach((field) => {
+          const line = locate(`\\b${field.name}\\s*=\\s*${field.id}\\b`, declaration.offset, fieldDepth(field, depth)).line;
+          if (!LOWER_SNAKE_CASE.test(field.name)) {
+            report('FIELD_LOWER_SNAKE_CASE', line, `Field ${nested.name}.${field.name} should be lower_snake_case`, fullName);
+          }
+          if (field.id >= 19000 && field.id <= 19999) {
+            report(
+              'FIELD_NUMBER_RESERVED_RANGE',
+              line,
+              `Field ${nested.name}.${field.name} uses number ${field.id}, reserved for the protobuf implementation`,
+              fullName
+            );
+          }
+        });
+
+        lintNamespace(nested, declaration.offset, depth + 1);
+        return;
+      }
+
+      if (nested instanceof Enum) {
+        const declaration = locate(`\\benum\\s+${nested.name}\\b`, scopeOffset, depth);
+        const prefix = `${toUpperSnakeCase(nested.name)}_`;
+        if (!nested.comment) {
+          report('COMMENT_ENUM', declaration.line, `Enum ${nested.name} has no comment`, fullName);
+        }
+
+        Object.entries(nested.values).forEach(([name, number]) => {
+          const line = locate(`\\b${name}\\s*=`, declaration.offset, depth + 1).line;
+          if (number === 0 && !name.endsWith('_UNSPECIFIED')) {
+            report('ENUM_ZERO_VALUE_SUFFIX', line, `Enum zero value ${name} should end in _UNSPECIFIED`, fullName);
+          }
+          if (!name.startsWith(prefix)) {
+            report('ENUM_VALUE_PREFIX', line, `Enum value ${name} should start with ${prefix}`, fullName);
+          }
+        });
+        return;
+      }
+
+      if (nested instanceof Service) {
+        const declaration = locate(`\\bservice\\s+${nested.name}\\b`, scopeOffset, depth);
+        if (!nested.comment) {
+          report('COMMENT_SERVICE', declaration.line, `Service ${nested.name} has no comment`, fullName);
+        }
+        return;
+      }
+
+      // Package namespaces
+      if (nested instanceof Namespace) {
+        lintNamespace(nested, scopeOffset, depth);
+      }
+    });
+  };
+
+  lintNamespace(parsed.root, 0, 0);
+  return problems.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Lints every loaded file, skipping the disabled rules
+ */
+export function lintProtoFiles(loadedFiles: Map<string, string>, disabledRules: Set<string>): LintProblem[] {
+  return Array.from(loadedFiles.entries()).flatMap(([file, content]) => lintFile(file, content, disabledRules));
+}
@@ -0,0 +1,208 @@
+import { parse, Enum, Namespace, Root, Type, type Field } from 'protobufjs';
+import type { editor, IDisposable, IPosition } from 'monaco-editor';
+import type { Monaco } from '@monaco-editor/react';
+import type { ProtoDefinition, ProtoIndex, ProtoTypeReference } from '../types/proto';
+import { createLocator, fieldDepth, maskComments, type SourceLocator } from './protoSourceLocator';
+
+/**
+ * Go-to-definition and find-usages for the loaded .proto files
+ * Every file is parsed on its own to find where messages and enums are declared, field types are
+ * then resolved across all files with the protobuf scoping rules (innermost scope first)
+ */
+
+// A field type found in a file, resolved once every file's definitions are known
+interface PendingReference {
+  file: string;
+  locator: SourceLocator;
+  scope: string; // full name of the message declaring the field
+  field: Field;
+  fieldOffset: number;
+}
+
+// Helper function to collect the definitions and field types of one parsed file
+const indexNamespace = (
+  namespace: Namespace,
+  scopeOffset: number,
+  depth: number,
+  file: string,
+  locator: SourceLocator,
+  definitions: Map<string, ProtoDefinition>,
+  pending: PendingReference[]
+) => {
+  namespace.nestedArray.forEach((nested) => {
+    if (nested instanceof Type || nested instanceof Enum) {
+      const keyword = nested instanceof Type ? 'message' : 'enum';
+      const declaration = locator.locate(`\\b${keyword}\\s+${nested.name}\\b`, scopeOffset, depth);
+      const nameOffset = locator.masked.indexOf(nested.name, declaration.offset + keyword.length);
+      const fullName = nested.fullName.replace(/^\./, '');
+      definitions.set(fullName, {
+        fullName,
+        kind: keyword,
+        file,
+        ...locator.positionAt(nameOffset),
+      });
+
+      if (nested instanceof Type) {
+        nested.fieldsArray.forEach((field) => {
+          const fieldOffset = locator.locate(`\\b${field.name}\\s*=\\s*${field.id}\\b`, declaration.offset, fieldDepth(field, depth)).offset;
+          pending.push({ file, locator, scope: fullName, field, fieldOffset });
+        });
+        indexNamespace(nested, declaration.offset, depth + 1, file, locator, definitions, pending);
+      }
+      return;
+    }
+
+    // Package namespaces
+    if (nested instanceof Namespace) {
+      indexNamespace(nested, scopeOffset, depth, file, locator, definitions, pending);
+    }
+  });
+};
+
+/**
+ * Resolves a type name as written inside `scope` to the full name of a known definition
+ */
+export function resolveTypeName(name: string, scope: string, definitions: Map<string, ProtoDefinition>): string | null {
+  if (name.startsWith('.')) {
+    return definitions.has(name.substring(1)) ? name.substring(1) : null;
+  }
+
+  const parts = scope ? scope.split('.') : [];
+  for (let i = parts.length; i >= 0; i--) {
+    const candidate = [...parts.slice(0, i), name].join('.');
+    if (definitions.has(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Indexes where every message and enum is declared and which fields use them
+ * Files that don't parse are left out
+ */
+export function buildProtoIndex(loadedFiles: Map<string, string>): ProtoIndex {
+  const definitions = new Map<string, ProtoDefinition>();
+  const pending: PendingReference[] = [];
+
+  loadedFiles.forEach((content, file) => {
+    try {
+      const parsed = parse(content, new Root(), { keepCase: true });
+      indexNamespace(parsed.root, 0, 0, file, createLocator(content), definitions, pending);
+    } catch {
+      // Parse errors are reported by parseFiles
+    }
+  });
+
+  const references: ProtoTypeReference[] = [];
+  pending.forEach(({ file, locator, scope, field, fieldOffset }) => {
+    const typeName = resolveTypeName(field.type, scope, definitions);
+    if (!typeName) return;
+
+    // The type is written before the field name, inside `map<...>` for map values
+    const typeOffset = locator.masked.lastIndexOf(field.type, fieldOffset - 1);
+    references.push({
+      typeName,
+      field: `${scope}.${field.name}`,
+      file,
+      ...locator.positionAt(typeOffset >= 0 ? typeOffset : fieldOffset),
+    });
+  });
+
+  return { definitions, references };
+}
+
+/**
+ * Full name of the scope at an offset: the package and the enclosing messages
+ */
+export function findScopeAt(text: string, offset: number): string {
+  let packageName = '';
+  const stack: (string | null)[] = [];
+
+  const tokens = /\bpackage\s+([\w.]+)\s*;|\b(message|enum|service|oneof|extend)\s+([\w.]+)\s*\{|[{}]/g;
+  for (const match of maskComments(text.substring(0, offset)).matchAll(tokens)) {
+    if (match[1]) {
+      packageName = match[1];
+    } else if (match[2]) {
+      // Only messages open a scope for type names
+      stack.push(match[2] === 'message' ? match[3] : null);
+    } else if (match[0] === '{') {
+      stack.push(null);
+    } else {
+      stack.pop();
+    }
+  }
+
+  return [packageName, ...stack].filter(Boolean).join('.');
+}
+
+/**
+ * The (possibly qualified) type name under a 1-based column, e.g. `pkg.Address`
+ */
+export function typeNameAt(lineText: string, column: number): string | null {
+  for (const match of lineText.matchAll(/\.?[A-Za-z_][\w.]*/g)) {
+    if (match.index <= column - 1 && column - 1 <= match.index + match[0].length) {
+      return match[0].replace(/\.$/, '');
+    }
+  }
+  return null;
+}
+
+export interface ProtoNavigationHandlers {
+  definitions: Map<string, ProtoDefinition>;
+  onGoToDefinition: (definition: ProtoDefinition) => void;
+  onFindUsages: (typeName: string) => void;
+}
+
+/**
+ * Adds Ctrl/Cmd+click and F12 (go to definition) and Shift+F12 (find usages) to a protobuf editor
+ * The handlers are read on every use, so they can change after the editor mounted
+ */
+export function attachProtoNavigation(
+  editor: editor.IStandaloneCodeEditor,
+  monaco: Monaco,
+  getHandlers: () => ProtoNavigationHandlers | null
+): IDisposable[] {
+  const resolveAt = (position: IPosition | null): ProtoDefinition | null => {
+    const handlers = getHandlers();
+    const model = editor.getModel();
+    if (!handlers || !model || !position) return null;
+
+    const text = model.getValue();
+    const lineText = maskComments(text).split('\n')[position.lineNumber - 1] ?? '';
+    const name = typeNameAt(lineText, position.column);
+    if (!name) return null;
+
+    const fullName = resolveTypeName(name, findScopeAt(text, model.getOffsetAt(position)), handlers.definitions);
+    return fullName ? handlers.definitions.get(fullName) ?? null : null;
+  };
+
+  return [
+    editor.onMouseDown((e) => {
+      if (!(e.event.ctrlKey || e.event.metaKey)) return;
+      const definition = resolveAt(e.target.position);
+      if (definition) {
+        e.event.preventDefault();
+        getHandlers()?.onGoToDefinition(definition);
+      }
+    }),
+    editor.addAction({
+      id: 'proto-go-to-definition',
+      label: 'Go to Definition',
+      keybindings: [monaco.KeyCode.F12],
+      contextMenuGroupId: 'navigation',
+      run: () => {
+        const definition = resolveAt(editor.getPosition());
+        if (definition) getHandlers()?.onGoToDefinition(definition);
+      },
+    }),
+    editor.addAction({
+      id: 'proto-find-usages',
+      label: 'Find Usages',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyCode.F12],
+      contextMenuGroupId: 'navigation',
+      run: () => {
+        const definition = resolveAt(editor.getPosition());
+        if (definition) getHandlers()?.onFindUsages(definition.fullName);
+      },
+    }),
+  ];
+}
@@ -0,0 +1,41 @@
+import type { TextLocation } from '../types/proto';
+
+export interface ProtoParseError {
+  message: string;
+  location?: TextLocation;
+}
+
+// protobufjs ends syntax errors with "(line N)" and gives no column
+const LINE_SUFFIX = /\s*\(line (\d+)\)$/;
+
+/**
+ * Turns a protobufjs parse error into a message and a line and column in the parsed text
+ * The column is where the offending token (quoted in the message) starts on that line,
+ * errors without a line point at the declaration of the name they quote
+ */
+export function locateProtoParseError(error: unknown, content: string): ProtoParseError {
+  const raw = error instanceof Error ? error.message : String(error);
+  const lineMatch = LINE_SUFFIX.exec(raw);
+  if (!lineMatch) {
+    // "duplicate name 'X' in ...": point at the last declaration of X, the one that clashed
+    const name = /'([\w.]+)'/.exec(raw)?.[1]?.split('.').pop();
+    const declaration = name
+      ? Array.from(content.matchAll(new RegExp(`\\b(?:message|enum|service|extend)\\s+${name}\\b`, 'g'))).pop()
+      : undefined;
+    if (!declaration) {
+      return { message: raw };
+    }
+    const before = content.substring(0, declaration.index + declaration[0].length - name!.length);
+    const lines = before.split('\n');
+    return { message: raw, location: { line: lines.length, column: lines[lines.length - 1].length + 1 } };
+  }
+
+  const message = raw.substring(0, lineMatch.index);
+  const line = Number(lineMatch[1]);
+  const lineText = content.split('\n')[line - 1] ?? '';
+  const token = /'([^']+)'/.exec(message)?.[1];
+  const tokenIndex = token ? lineText.indexOf(token) : -1;
+  const column = tokenIndex >= 0 ? tokenIndex + 1 : Math.max(lineText.search(/\S/), 0) + 1;
+
+  return { message, location: { line, column } };
+}
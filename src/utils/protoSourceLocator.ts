@@ -0,0 +1,67 @@
+import type { Field } from 'protobufjs';
+import type { TextLocation } from '../types/proto';
+
+/**
+ * Position lookups in .proto source text, for tools that report or jump to declarations
+ * Comments are blanked out first so names inside them are never matched
+ */
+
+// Helper function to blank out comments, keeping offsets and line breaks
+export const maskComments = (content: string): string =>
+  content.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '));
+
+export interface SourceMatch {
+  offset: number; // start of the match, or of the search when nothing matched
+  line: number; // 1-based
+}
+
+export interface SourceLocator {
+  masked: string; // the content with comments blanked out
+  // Searches from the offset of the enclosing declaration, so nested names resolve to their own scope;
+  // with a depth, only matches nested in that many braces count (0 for top-level declarations)
+  locate: (pattern: string, from?: number, depth?: number) => SourceMatch;
+  positionAt: (offset: number) => TextLocation;
+}
+
+export const createLocator = (content: string): SourceLocator => {
+  const masked = maskComments(content);
+  const lineStarts = [0];
+  // Brace depth before every offset
+  const depths = new Int32Array(masked.length + 1);
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '\n') lineStarts.push(i + 1);
+    depths[i + 1] = depths[i] + (masked[i] === '{' ? 1 : masked[i] === '}' ? -1 : 0);
+  }
+
+  const positionAt = (offset: number): TextLocation => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  };
+
+  const find = (pattern: string, from: number, depth?: number): RegExpExecArray | null => {
+    const regex = new RegExp(pattern, 'g');
+    regex.lastIndex = from;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(masked)) !== null) {
+      if (depth === undefined || depths[match.index] === depth) return match;
+    }
+    return null;
+  };
+
+  const locate = (pattern: string, from = 0, depth?: number): SourceMatch => {
+    const match = find(pattern, from, depth) ?? (from > 0 ? find(pattern, 0, depth) : null);
+    const offset = match ? match.index : from;
+    return { offset, line: positionAt(offset).line };
+  };
+
+  return { masked, locate, positionAt };
+};
+
+// Helper function to get the brace depth a field is written at, one deeper inside a `oneof` block;
+// proto3 `optional` fields sit in a synthetic oneof that isn't written out
+export const fieldDepth = (field: Field, messageDepth: number): number => {
+  const oneof = field.partOf;
+  const inOneofBlock = !!oneof && !(oneof.oneof.length === 1 && oneof.name === `_${field.name}`);
+  return messageDepth + (inOneofBlock ? 2 : 1);
+};
@@ -0,0 +1,10 @@
+import Long from 'long';
+import { util, configure } from 'protobufjs';
+
+/**
+ * Registers long.js with protobufjs
+ * Without it 64-bit integers (int64, uint64, fixed64...) are decoded and encoded as JS numbers
+ * and lose precision above 2^53. Imported once from main.tsx before anything decodes
+ */
+util.Long = Long;
+configure();
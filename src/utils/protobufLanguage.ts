@@ -1,4 +1,5 @@
 import type { languages } from 'monaco-editor';
+import type { Monaco } from '@monaco-editor/react';
 
 export const protobufLanguageConfiguration: languages.LanguageConfiguration = {
   comments: {
@@ -154,3 +155,17 @@ export const protobufMonarchLanguage: languages.IMonarchLanguage = {
     ],
   },
 };
+
+/**
+ * Registers the protobuf language with Monaco unless it's already registered
+ */
+export function registerProtobufLanguage(monaco: Monaco) {
+  const registered = monaco.languages.getLanguages();
+  if (registered.some((lang) => lang.id === 'protobuf')) {
+    return;
+  }
+
+  monaco.languages.register({ id: 'protobuf' });
+  monaco.languages.setLanguageConfiguration('protobuf', protobufLanguageConfiguration);
+  monaco.languages.setMonarchTokensProvider('protobuf', protobufMonarchLanguage);
+}
@@ -1,4 +1,5 @@
 import type { languages } from 'monaco-editor';
+import type { Monaco } from '@monaco-editor/react';
 
 export const prototextLanguageConfiguration: languages.LanguageConfiguration = {
   comments: {
@@ -97,3 +98,17 @@ export const prototextMonarchLanguage: languages.IMonarchLanguage = {
     ],
   },
 };
+
+/**
+ * Registers the prototext language with Monaco unless it's already registered
+ */
+export function registerPrototextLanguage(monaco: Monaco) {
+  const registered = monaco.languages.getLanguages();
+  if (registered.some((lang) => lang.id === 'prototext')) {
+    return;
+  }
+
+  monaco.languages.register({ id: 'prototext' });
+  monaco.languages.setLanguageConfiguration('prototext', prototextLanguageConfiguration);
+  monaco.languages.setMonarchTokensProvider('prototext', prototextMonarchLanguage);
+}
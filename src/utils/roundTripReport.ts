@@ -0,0 +1,228 @@
+import { Type, Enum, Field, MapField } from 'protobufjs';
+import type { JsonPath, RoundTripIssue } from '../types/proto';
+import { findJsonField, jsonNameOf, SPECIAL_JSON_TYPES } from './proto3Json';
+import { isBytesText, WRAPPER_TYPES } from './normalizeMessage';
+import { base64ToUint8Array, uint8ArrayToBase64 } from './binaryEncoding';
+import { decodeUtf8 } from './wireFormat';
+
+/**
+ * Round-trip verification: the encoded output is decoded again and compared with the
+ * JSON the user wrote, field by field. Conversion only fails on values verify rejects,
+ * everything else that doesn't survive encoding is reported here:
+ * unknown keys fromObject drops, enum names that don't exist, floats rounded to 32 bits,
+ * bytes taken as plain text instead of base64 (or words decoded as base64) and integers wrapped to their field size
+ */
+
+const INT32_RANGES: Record<string, [number, number]> = {
+  int32: [-2147483648, 2147483647],
+  sint32: [-2147483648, 2147483647],
+  sfixed32: [-2147483648, 2147483647],
+  uint32: [0, 4294967295],
+  fixed32: [0, 4294967295],
+};
+
+const LONG_RANGES: Record<string, [bigint, bigint]> = {
+  int64: [-(2n ** 63n), 2n ** 63n - 1n],
+  sint64: [-(2n ** 63n), 2n ** 63n - 1n],
+  sfixed64: [-(2n ** 63n), 2n ** 63n - 1n],
+  uint64: [0n, 2n ** 64n - 1n],
+  fixed64: [0n, 2n ** 64n - 1n],
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fullNameOf = (type: { fullName: string }): string => type.fullName.replace(/^\./, '');
+
+const preview = (value: unknown): string => {
+  const text = typeof value === 'string' ? JSON.stringify(value) : String(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+/**
+ * Compares the JSON a message was converted from with the proto3 JSON of the decoded output
+ * Paths use the keys as written in the input, so they can be highlighted in the editor
+ */
+export function compareRoundTrip(
+  input: unknown,
+  decoded: Record<string, unknown>,
+  type: Type,
+  basePath: JsonPath = []
+): RoundTripIssue[] {
+  type.resolveAll();
+  const issues: RoundTripIssue[] = [];
+  compareMessage(input, decoded, type, basePath, issues);
+  return issues;
+}
+
+function compareMessage(
+  input: unknown,
+  decoded: unknown,
+  type: Type,
+  path: JsonPath,
+  issues: RoundTripIssue[]
+): void {
+  if (!isPlainObject(input)) return;
+  const decodedObj = isPlainObject(decoded) ? decoded : {};
+
+  Object.entries(input).forEach(([key, value]) => {
+    const fieldPath = [...path, key];
+    const field = findJsonField(type, key);
+
+    if (!field) {
+      issues.push({
+        path: fieldPath,
+        kind: 'unknown-field',
+        message: `"${key}" is not a field of ${type.name} and was dropped`,
+      });
+      return;
+    }
+    if (value === null) return;
+
+    const decodedValue = decodedObj[jsonNameOf(field)];
+
+    if (field instanceof MapField) {
+      if (!isPlainObject(value)) return;
+      const decodedMap = isPlainObject(decodedValue) ? decodedValue : {};
+      Object.entries(value).forEach(([mapKey, entryValue]) => {
+        compareValue(entryValue, decodedMap[normalizeMapKey(mapKey, field.keyType)], field, [...fieldPath, mapKey], issues);
+      });
+      return;
+    }
+
+    if (field.repeated) {
+      if (!Array.isArray(value)) return;
+      const decodedList = Array.isArray(decodedValue) ? decodedValue : [];
+      value.forEach((item, index) => compareValue(item, decodedList[index], field, [...fieldPath, index], issues));
+      return;
+    }
+
+    compareValue(value, decodedValue, field, fieldPath, issues);
+  });
+}
+
+function compareValue(input: unknown, decoded: unknown, field: Field, path: JsonPath, issues: RoundTripIssue[]): void {
+  const resolvedType = field.resolvedType;
+
+  if (resolvedType instanceof Type) {
+    const fullName = fullNameOf(resolvedType);
+    if (WRAPPER_TYPES.has(fullName)) {
+      // Bare values and {value} both wrap the wrapper's single field
+      const inner = isPlainObject(input) ? input.value : input;
+      if (inner !== undefined && inner !== null) {
+        compareValue(inner, decoded, resolvedType.fields.value, path, issues);
+      }
+      return;
+    }
+    // Timestamps, Durations, Structs and Any are parsed strictly or compared by their own rules
+    if (SPECIAL_JSON_TYPES.has(fullName) || fullName === 'google.protobuf.Any') return;
+
+    compareMessage(input, decoded, resolvedType, path, issues);
+    return;
+  }
+
+  if (resolvedType instanceof Enum) {
+    if (fullNameOf(resolvedType) === 'google.protobuf.NullValue') return;
+    if (typeof input === 'string' && resolvedType.values[input] === undefined) {
+      issues.push({ path, kind: 'unknown-enum', message: `${preview(input)} is not a value of ${resolvedType.name}` });
+    } else if (typeof input === 'number' && resolvedType.valuesById[input] === undefined) {
+      issues.push({ path, kind: 'unknown-enum', message: `${input} is not a value of ${resolvedType.name}` });
+    }
+    return;
+  }
+
+  compareScalar(input, decoded, field.type, path, issues);
+}
+
+function compareScalar(input: unknown, decoded: unknown, protoType: string, path: JsonPath, issues: RoundTripIssue[]): void {
+  if (protoType === 'float') {
+    const value = typeof input === 'string' ? Number(input) : input;
+    if (typeof value === 'number' && Number.isFinite(value) && Math.fround(value) !== value) {
+      issues.push({
+        path,
+        kind: 'float-precision',
+        message: `${value} is stored as ${decoded ?? Math.fround(value)} in a 32-bit float`,
+      });
+    }
+    return;
+  }
+
+  if (protoType === 'bytes') {
+    if (typeof input !== 'string') return;
+    // Strings that aren't base64 are taken as text by the bytes heuristic
+    if (isBytesText(input)) {
+      issues.push({
+        path,
+        kind: 'bytes-as-text',
+        message: `${preview(input)} is not Base64 and was encoded as UTF-8 text`,
+      });
+      return;
+    }
+    // A plain word can be valid base64 too, it is then decoded rather than kept as text
+    const bytes = base64ToUint8Array(input);
+    if (/^[A-Za-z]+$/.test(input) && decodeUtf8(bytes) === null) {
+      const textBase64 = uint8ArrayToBase64(new TextEncoder().encode(input));
+      issues.push({
+        path,
+        kind: 'bytes-as-base64',
+        message: `${preview(input)} was decoded as Base64 into ${bytes.length} bytes; write "${textBase64}" to store it as text`,
+      });
+    }
+    return;
+  }
+
+  const intRange = INT32_RANGES[protoType];
+  if (intRange) {
+    const value = typeof input === 'string' ? Number(input) : input;
+    if (typeof value === 'number' && Number.isInteger(value) && (value < intRange[0] || value > intRange[1])) {
+      issues.push({
+        path,
+        kind: 'integer-range',
+        message: `${value} does not fit in ${protoType} and became ${decoded ?? 0}`,
+      });
+    }
+    return;
+  }
+
+  const longRange = LONG_RANGES[protoType];
+  if (longRange) {
+    let value: bigint;
+    try {
+      value = BigInt(typeof input === 'string' ? input.trim() : (input as number));
+    } catch {
+      return;
+    }
+    if (value < longRange[0] || value > longRange[1]) {
+      issues.push({
+        path,
+        kind: 'integer-range',
+        message: `${value} does not fit in ${protoType} and became ${decoded ?? 0}`,
+      });
+    }
+    return;
+  }
+
+  // Anything else must come back as written; fields left at their default are omitted from the output
+  const expected = protoType === 'double' && typeof input === 'string' ? Number(input) : input;
+  const actual = decoded ?? (protoType === 'string' ? '' : protoType === 'bool' ? false : 0);
+  const actualValue = protoType === 'double' && typeof actual === 'string' ? Number(actual) : actual;
+  if (!Object.is(expected, actualValue) && !(expected === 0 && actualValue === 0)) {
+    issues.push({
+      path,
+      kind: 'value-changed',
+      message: `${preview(input)} came back as ${preview(decoded ?? actual)}`,
+    });
+  }
+}
+
+// Map keys are decoded in canonical form: "007" → "7", "True" → "true"
+function normalizeMapKey(key: string, keyType: string): string {
+  const trimmed = key.trim();
+  if (keyType !== 'string' && keyType !== 'bool' && /^-?\d+$/.test(trimmed)) {
+    return BigInt(trimmed).toString();
+  }
+  if (keyType === 'bool') {
+    return trimmed.toLowerCase();
+  }
+  return key;
+}
@@ -0,0 +1,45 @@
+import type { FieldSize, WireFieldAnnotation } from '../types/proto';
+
+/**
+ * Per-field size breakdown of an encoded message
+ * Occurrences of the same field (repeated elements, map entries) are summed into one node,
+ * nested message fields are summed into the node of the field that holds them
+ */
+
+const rangeLength = ([start, end]: [number, number]): number => end - start;
+
+/**
+ * Aggregates wire annotations into a tree of field sizes, largest first
+ */
+export function buildSizeTree(annotations: WireFieldAnnotation[]): FieldSize[] {
+  const nodes = new Map<number, FieldSize>();
+  const childAnnotations = new Map<number, WireFieldAnnotation[]>();
+
+  annotations.forEach((annotation) => {
+    let node = nodes.get(annotation.fieldNumber);
+    if (!node) {
+      node = {
+        name: annotation.fieldName ?? `#${annotation.fieldNumber}`,
+        fieldNumber: annotation.fieldNumber,
+        count: 0,
+        bytes: 0,
+        overhead: 0,
+        children: [],
+      };
+      nodes.set(annotation.fieldNumber, node);
+      childAnnotations.set(annotation.fieldNumber, []);
+    }
+
+    const overhead = rangeLength(annotation.tag) + (annotation.length ? rangeLength(annotation.length) : 0);
+    node.count += 1;
+    node.overhead += overhead;
+    node.bytes += overhead + rangeLength(annotation.value);
+    if (annotation.children) {
+      childAnnotations.get(annotation.fieldNumber)!.push(...annotation.children);
+    }
+  });
+
+  return [...nodes.values()]
+    .map((node) => ({ ...node, children: buildSizeTree(childAnnotations.get(node.fieldNumber)!) }))
+    .sort((a, b) => b.bytes - a.bytes);
+}
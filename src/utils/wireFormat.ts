@@ -0,0 +1,331 @@
+/**
+ * Schema-less protobuf wire format reader, similar to `protoc --decode_raw`
+ * https://protobuf.dev/programming-guides/encoding/
+ */
+
+export const WIRE_TYPE_NAMES: Record<number, string> = {
+  0: 'varint',
+  1: 'i64',
+  2: 'len',
+  3: 'sgroup',
+  4: 'egroup',
+  5: 'i32',
+};
+
+export type RawValue =
+  | { kind: 'varint'; value: bigint }
+  | { kind: 'fixed64'; value: bigint }
+  | { kind: 'fixed32'; value: number }
+  | { kind: 'string'; bytes: Uint8Array; text: string }
+  | { kind: 'message'; bytes: Uint8Array; fields: RawField[] }
+  | { kind: 'bytes'; bytes: Uint8Array }
+  | { kind: 'group'; fields: RawField[] };
+
+export interface RawField {
+  fieldNumber: number;
+  wireType: number;
+  /** Offset of the first tag byte */
+  offset: number;
+  /** Offset of the length prefix (length-delimited fields only) */
+  lengthOffset?: number;
+  /** Offset of the first value byte */
+  valueOffset: number;
+  /** Offset just past the last byte of the field (including an end-group tag) */
+  end: number;
+  value: RawValue;
+}
+
+/**
+ * Reads a base-128 varint starting at offset, without reading past end
+ * Returns the value and the offset just past it
+ */
+export function readVarint(buffer: Uint8Array, offset: number, end = buffer.length): { value: bigint; next: number } {
+  let result = 0n;
+  let shift = 0n;
+  let pos = offset;
+
+  while (true) {
+    if (pos >= end) {
+      throw new Error(`Truncated varint at byte ${offset}`);
+    }
+    const byte = buffer[pos++];
+    result |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7n;
+    if (shift >= 70n) {
+      throw new Error(`Varint at byte ${offset} is longer than 10 bytes`);
+    }
+  }
+
+  return { value: BigInt.asUintN(64, result), next: pos };
+}
+
+/**
+ * Decodes every field between start and end without a schema
+ * Throws if the bytes are not a well-formed sequence of fields
+ */
+export function decodeRawFields(
+  buffer: Uint8Array,
+  start = 0,
+  end = buffer.length,
+  endGroup?: number
+): RawField[] {
+  const fields: RawField[] = [];
+  let pos = start;
+
+  while (pos < end) {
+    const offset = pos;
+    const tag = readVarint(buffer, pos, end);
+    pos = tag.next;
+
+    const fieldNumber = Number(tag.value >> 3n);
+    const wireType = Number(tag.value & 7n);
+
+    if (fieldNumber < 1 || fieldNumber > 0x1fffffff) {
+      throw new Error(`Invalid field number ${fieldNumber} at byte ${offset}`);
+    }
+
+    switch (wireType) {
+      case 0: {
+        const varint = readVarint(buffer, pos, end);
+        fields.push({
+          fieldNumber,
+          wireType,
+          offset,
+          valueOffset: pos,
+          end: varint.next,
+          value: { kind: 'varint', value: varint.value },
+        });
+        pos = varint.next;
+        break;
+      }
+
+      case 1: {
+        if (pos + 8 > end) {
+          throw new Error(`Truncated fixed64 for field ${fieldNumber} at byte ${offset}`);
+        }
+        const view = new DataView(buffer.buffer, buffer.byteOffset + pos, 8);
+        fields.push({
+          fieldNumber,
+          wireType,
+          offset,
+          valueOffset: pos,
+          end: pos + 8,
+          value: { kind: 'fixed64', value: view.getBigUint64(0, true) },
+        });
+        pos += 8;
+        break;
+      }
+
+      case 2: {
+        const length = readVarint(buffer, pos, end);
+        const valueOffset = length.next;
+        const valueEnd = valueOffset + Number(length.value);
+        if (length.value > BigInt(end - valueOffset)) {
+          throw new Error(
+            `Length ${length.value} of field ${fieldNumber} at byte ${offset} exceeds the remaining ${end - valueOffset} bytes`
+          );
+        }
+        fields.push({
+          fieldNumber,
+          wireType,
+          offset,
+          lengthOffset: pos,
+          valueOffset,
+          end: valueEnd,
+          value: guessLengthDelimited(buffer, valueOffset, valueEnd),
+        });
+        pos = valueEnd;
+        break;
+      }
+
+      case 3: {
+        const groupFields = decodeRawFields(buffer, pos, end, fieldNumber);
+        const last = groupFields.pop();
+        // The trailing end-group tag is returned as a sentinel entry
+        const groupEnd = last ? last.end : pos;
+        fields.push({
+          fieldNumber,
+          wireType,
+          offset,
+          valueOffset: pos,
+          end: groupEnd,
+          value: { kind: 'group', fields: groupFields },
+        });
+        pos = groupEnd;
+        break;
+      }
+
+      case 4: {
+        if (endGroup !== fieldNumber) {
+          throw new Error(`Unexpected end-group tag for field ${fieldNumber} at byte ${offset}`);
+        }
+        fields.push({
+          fieldNumber,
+          wireType,
+          offset,
+          valueOffset: pos,
+          end: pos,
+          value: { kind: 'group', fields: [] },
+        });
+        return fields;
+      }
+
+      case 5: {
+        if (pos + 4 > end) {
+          throw new Error(`Truncated fixed32 for field ${fieldNumber} at byte ${offset}`);
+        }
+        const view = new DataView(buffer.buffer, buffer.byteOffset + pos, 4);
+        fields.push({
+          fieldNumber,
+          wireType,
+          offset,
+          valueOffset: pos,
+          end: pos + 4,
+          value: { kind: 'fixed32', value: view.getUint32(0, true) },
+        });
+        pos += 4;
+        break;
+      }
+
+      default:
+        throw new Error(`Invalid wire type ${wireType} for field ${fieldNumber} at byte ${offset}`);
+    }
+  }
+
+  if (endGroup !== undefined) {
+    throw new Error(`Missing end-group tag for field ${endGroup}`);
+  }
+
+  return fields;
+}
+
+/**
+ * Decodes valid UTF-8 or returns null
+ */
+export function decodeUtf8(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function isPrintableText(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    // Allow tab, newline and carriage return, reject other control characters
+    if ((code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) || code === 0x7f) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Guesses what a length-delimited value holds: printable text is most likely a string,
+ * otherwise a well-formed nested message, otherwise raw bytes
+ */
+function guessLengthDelimited(buffer: Uint8Array, start: number, end: number): RawValue {
+  const bytes = buffer.subarray(start, end);
+  const text = decodeUtf8(bytes);
+
+  if (text !== null && isPrintableText(text)) {
+    return { kind: 'string', bytes, text };
+  }
+
+  try {
+    const fields = decodeRawFields(buffer, start, end);
+    return { kind: 'message', bytes, fields };
+  } catch {
+    // Not a message
+  }
+
+  if (text !== null) {
+    return { kind: 'string', bytes, text };
+  }
+
+  return { kind: 'bytes', bytes };
+}
+
+function escapeBytes(bytes: Uint8Array): string {
+  let escaped = '';
+  for (const byte of bytes) {
+    if (byte === 0x22) escaped += '\\"';
+    else if (byte === 0x5c) escaped += '\\\\';
+    else if (byte >= 0x20 && byte < 0x7f) escaped += String.fromCharCode(byte);
+    else escaped += '\\x' + byte.toString(16).padStart(2, '0');
+  }
+  return `"${escaped}"`;
+}
+
+function escapeText(text: string): string {
+  return JSON.stringify(text);
+}
+
+function formatVarint(value: bigint): string {
+  const signed = BigInt.asIntN(64, value);
+  // Negative int32/int64 values are encoded as 10-byte two's complement varints
+  return signed < 0n ? `${value} (int64: ${signed})` : value.toString();
+}
+
+function formatFixed64(value: bigint): string {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setBigUint64(0, value, true);
+  const double = view.getFloat64(0, true);
+  return `0x${value.toString(16).padStart(16, '0')} (uint64: ${value}, int64: ${BigInt.asIntN(64, value)}, double: ${double})`;
+}
+
+function formatFixed32(value: number): string {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setUint32(0, value, true);
+  const float = view.getFloat32(0, true);
+  return `0x${value.toString(16).padStart(8, '0')} (uint32: ${value}, int32: ${value | 0}, float: ${float})`;
+}
+
+/**
+ * Formats decoded fields as indented text, one field per line:
+ *   1 [varint]: 150
+ *   2 [len] {
+ *     1 [len]: "nested"
+ *   }
+ */
+export function formatRawFields(fields: RawField[], indentLevel = 0): string {
+  const indent = '  '.repeat(indentLevel);
+  const lines: string[] = [];
+
+  fields.forEach((field) => {
+    const label = `${indent}${field.fieldNumber} [${WIRE_TYPE_NAMES[field.wireType]}]`;
+    const value = field.value;
+
+    switch (value.kind) {
+      case 'varint':
+        lines.push(`${label}: ${formatVarint(value.value)}`);
+        break;
+      case 'fixed64':
+        lines.push(`${label}: ${formatFixed64(value.value)}`);
+        break;
+      case 'fixed32':
+        lines.push(`${label}: ${formatFixed32(value.value)}`);
+        break;
+      case 'string':
+        lines.push(`${label}: ${escapeText(value.text)}`);
+        break;
+      case 'bytes':
+        lines.push(`${label}: ${escapeBytes(value.bytes)}`);
+        break;
+      case 'message':
+      case 'group':
+        if (value.fields.length === 0) {
+          lines.push(`${label} {}`);
+        } else {
+          lines.push(`${label} {`);
+          lines.push(formatRawFields(value.fields, indentLevel + 1));
+          lines.push(`${indent}}`);
+        }
+        break;
+    }
+  });
+
+  return lines.join('\n');
+}